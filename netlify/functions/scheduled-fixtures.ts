@@ -0,0 +1,17 @@
+import { schedule } from '@netlify/functions'
+import { prisma } from '../../server/prisma'
+import { createAllScheduledFixtures } from '../../server/scheduledFixtures'
+import { chargeFixtures } from '../../server/fixtureCharges'
+import { settleMotmPolls } from '../../server/motmPolls'
+
+// Keeps every team's regular game filled in for the weeks ahead, charges fixtures that
+// have kicked off and settles closed man-of-the-match polls, so reads never write
+export const handler = schedule('@hourly', async () => {
+  const created = await createAllScheduledFixtures({ prisma })
+  console.log(`Created ${created} scheduled fixtures`)
+  const charged = await chargeFixtures({ prisma })
+  console.log(`Charged ${charged} fixtures`)
+  const settled = await settleMotmPolls({ prisma })
+  console.log(`Settled ${settled} man-of-the-match polls`)
+  return { statusCode: 200 }
+})
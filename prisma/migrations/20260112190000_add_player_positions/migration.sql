@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "Position" AS ENUM ('GK', 'DEF', 'MID', 'FWD');
+
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN     "position" "Position" NOT NULL DEFAULT 'MID',
+ADD COLUMN     "secondaryPosition" "Position";
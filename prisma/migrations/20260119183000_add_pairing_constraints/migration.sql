@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "PairingConstraintType" AS ENUM ('TOGETHER', 'APART', 'LOCKED');
+
+-- CreateTable
+CREATE TABLE "PairingConstraint" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "type" "PairingConstraintType" NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "otherPlayerId" INTEGER,
+    "side" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PairingConstraint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PairingConstraint_teamId_idx" ON "PairingConstraint"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "PairingConstraint" ADD CONSTRAINT "PairingConstraint_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PairingConstraint" ADD CONSTRAINT "PairingConstraint_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PairingConstraint" ADD CONSTRAINT "PairingConstraint_otherPlayerId_fkey" FOREIGN KEY ("otherPlayerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "RatingAttribute" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RatingAttribute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlayerAttributeValue" (
+    "playerId" INTEGER NOT NULL,
+    "attributeId" INTEGER NOT NULL,
+    "value" INTEGER NOT NULL,
+
+    CONSTRAINT "PlayerAttributeValue_pkey" PRIMARY KEY ("playerId","attributeId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingAttribute_name_userId_key" ON "RatingAttribute"("name", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RatingAttribute" ADD CONSTRAINT "RatingAttribute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerAttributeValue" ADD CONSTRAINT "PlayerAttributeValue_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerAttributeValue" ADD CONSTRAINT "PlayerAttributeValue_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "RatingAttribute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "LineupMode" AS ENUM ('BALANCED', 'RANDOM', 'DRAFT');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "playedAt" TIMESTAMP(3) NOT NULL,
+    "pairingMode" "LineupMode",
+    "pairingSeed" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MatchPlayer" (
+    "matchId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "side" INTEGER NOT NULL,
+    "isSubstitute" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "MatchPlayer_pkey" PRIMARY KEY ("matchId","playerId")
+);
+
+-- CreateIndex
+CREATE INDEX "Match_teamId_playedAt_idx" ON "Match"("teamId", "playedAt");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchPlayer" ADD CONSTRAINT "MatchPlayer_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchPlayer" ADD CONSTRAINT "MatchPlayer_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
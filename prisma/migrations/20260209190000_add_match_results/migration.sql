@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "MatchEventType" AS ENUM ('GOAL', 'ASSIST', 'OWN_GOAL', 'CLEAN_SHEET');
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "team1Score" INTEGER,
+ADD COLUMN     "team2Score" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MatchEvent" (
+    "id" SERIAL NOT NULL,
+    "matchId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "type" "MatchEventType" NOT NULL,
+    "minute" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchEvent_matchId_idx" ON "MatchEvent"("matchId");
+
+-- CreateIndex
+CREATE INDEX "MatchEvent_playerId_idx" ON "MatchEvent"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "MatchEvent" ADD CONSTRAINT "MatchEvent_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchEvent" ADD CONSTRAINT "MatchEvent_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "ratedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "autoRating" BOOLEAN NOT NULL DEFAULT false;
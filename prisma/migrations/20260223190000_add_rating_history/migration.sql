@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RatingChangeSource" AS ENUM ('MANUAL', 'ATTRIBUTES', 'MATCH_RESULT');
+
+-- CreateTable
+CREATE TABLE "PlayerRatingChange" (
+    "id" SERIAL NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "oldRating" INTEGER NOT NULL,
+    "newRating" INTEGER NOT NULL,
+    "source" "RatingChangeSource" NOT NULL,
+    "changedById" INTEGER,
+    "matchId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlayerRatingChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlayerRatingChange_playerId_createdAt_idx" ON "PlayerRatingChange"("playerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PlayerRatingChange" ADD CONSTRAINT "PlayerRatingChange_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerRatingChange" ADD CONSTRAINT "PlayerRatingChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerRatingChange" ADD CONSTRAINT "PlayerRatingChange_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE SET NULL ON UPDATE CASCADE;
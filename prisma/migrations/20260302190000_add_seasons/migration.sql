@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "seasonId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Season" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "minAppearances" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Season_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Season_teamId_startDate_idx" ON "Season"("teamId", "startDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Season_name_teamId_key" ON "Season"("name", "teamId");
+
+-- CreateIndex
+CREATE INDEX "Match_seasonId_idx" ON "Match"("seasonId");
+
+-- AddForeignKey
+ALTER TABLE "Season" ADD CONSTRAINT "Season_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "Season"("id") ON DELETE SET NULL ON UPDATE CASCADE;
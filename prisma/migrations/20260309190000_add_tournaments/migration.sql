@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "TournamentFormat" AS ENUM ('ROUND_ROBIN', 'KNOCKOUT');
+
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" "TournamentFormat" NOT NULL,
+    "pitches" INTEGER NOT NULL,
+    "slotMinutes" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentTeam" (
+    "id" SERIAL NOT NULL,
+    "tournamentId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "seed" INTEGER NOT NULL,
+
+    CONSTRAINT "TournamentTeam_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentTeamPlayer" (
+    "teamId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+
+    CONSTRAINT "TournamentTeamPlayer_pkey" PRIMARY KEY ("teamId","playerId")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentFixture" (
+    "id" SERIAL NOT NULL,
+    "tournamentId" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "bracketIndex" INTEGER NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "pitch" INTEGER NOT NULL,
+    "homeTeamId" INTEGER,
+    "awayTeamId" INTEGER,
+    "homeScore" INTEGER,
+    "awayScore" INTEGER,
+    "winnerTeamId" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TournamentFixture_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Tournament_userId_idx" ON "Tournament"("userId");
+
+-- CreateIndex
+CREATE INDEX "TournamentTeam_tournamentId_idx" ON "TournamentTeam"("tournamentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentFixture_tournamentId_round_bracketIndex_key" ON "TournamentFixture"("tournamentId", "round", "bracketIndex");
+
+-- AddForeignKey
+ALTER TABLE "Tournament" ADD CONSTRAINT "Tournament_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentTeam" ADD CONSTRAINT "TournamentTeam_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentTeamPlayer" ADD CONSTRAINT "TournamentTeamPlayer_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "TournamentTeam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentTeamPlayer" ADD CONSTRAINT "TournamentTeamPlayer_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentFixture" ADD CONSTRAINT "TournamentFixture_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentFixture" ADD CONSTRAINT "TournamentFixture_homeTeamId_fkey" FOREIGN KEY ("homeTeamId") REFERENCES "TournamentTeam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentFixture" ADD CONSTRAINT "TournamentFixture_awayTeamId_fkey" FOREIGN KEY ("awayTeamId") REFERENCES "TournamentTeam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentFixture" ADD CONSTRAINT "TournamentFixture_winnerTeamId_fkey" FOREIGN KEY ("winnerTeamId") REFERENCES "TournamentTeam"("id") ON DELETE SET NULL ON UPDATE CASCADE;
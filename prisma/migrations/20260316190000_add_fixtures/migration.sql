@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "RsvpStatus" AS ENUM ('IN', 'OUT', 'MAYBE');
+
+-- CreateTable
+CREATE TABLE "Fixture" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "venue" TEXT,
+    "capacity" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Fixture_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FixtureResponse" (
+    "fixtureId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "status" "RsvpStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FixtureResponse_pkey" PRIMARY KEY ("fixtureId","playerId")
+);
+
+-- CreateIndex
+CREATE INDEX "Fixture_teamId_startsAt_idx" ON "Fixture"("teamId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "FixtureResponse_playerId_idx" ON "FixtureResponse"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "Fixture" ADD CONSTRAINT "Fixture_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FixtureResponse" ADD CONSTRAINT "FixtureResponse_fixtureId_fkey" FOREIGN KEY ("fixtureId") REFERENCES "Fixture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FixtureResponse" ADD CONSTRAINT "FixtureResponse_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
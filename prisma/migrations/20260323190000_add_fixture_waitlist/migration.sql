@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "RsvpStatus" ADD VALUE 'WAITLIST';
+
+-- CreateTable
+CREATE TABLE "FixtureResponseChange" (
+    "id" SERIAL NOT NULL,
+    "fixtureId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "status" "RsvpStatus",
+    "promoted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FixtureResponseChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FixtureResponseChange_fixtureId_createdAt_idx" ON "FixtureResponseChange"("fixtureId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FixtureResponseChange" ADD CONSTRAINT "FixtureResponseChange_fixtureId_fkey" FOREIGN KEY ("fixtureId") REFERENCES "Fixture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FixtureResponseChange" ADD CONSTRAINT "FixtureResponseChange_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
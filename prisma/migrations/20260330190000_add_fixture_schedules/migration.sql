@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ScheduleFrequency" AS ENUM ('WEEKLY', 'FORTNIGHTLY');
+
+-- AlterTable
+ALTER TABLE "Fixture" ADD COLUMN     "scheduledFor" TIMESTAMP(3),
+ADD COLUMN     "skipped" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "FixtureSchedule" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "frequency" "ScheduleFrequency" NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "time" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "playersPerSide" INTEGER NOT NULL,
+    "venue" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FixtureSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FixtureSchedule_teamId_key" ON "FixtureSchedule"("teamId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Fixture_teamId_scheduledFor_key" ON "Fixture"("teamId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "FixtureSchedule" ADD CONSTRAINT "FixtureSchedule_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
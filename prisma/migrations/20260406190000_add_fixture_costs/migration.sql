@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Fixture" ADD COLUMN     "cost" INTEGER;
+
+-- AlterTable
+ALTER TABLE "FixtureSchedule" ADD COLUMN     "cost" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "note" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_teamId_playerId_idx" ON "Payment"("teamId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
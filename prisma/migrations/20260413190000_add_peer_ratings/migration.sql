@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "RatingChangeSource" ADD VALUE 'PEER_RATINGS';
+
+-- CreateTable
+CREATE TABLE "PeerRating" (
+    "matchId" INTEGER NOT NULL,
+    "raterId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "score" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PeerRating_pkey" PRIMARY KEY ("matchId","raterId","playerId")
+);
+
+-- CreateIndex
+CREATE INDEX "PeerRating_playerId_idx" ON "PeerRating"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "PeerRating" ADD CONSTRAINT "PeerRating_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerRating" ADD CONSTRAINT "PeerRating_raterId_fkey" FOREIGN KEY ("raterId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerRating" ADD CONSTRAINT "PeerRating_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "motmDecidedAt" TIMESTAMP(3),
+ADD COLUMN     "motmPlayerId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "motmVotingHours" INTEGER NOT NULL DEFAULT 48;
+
+-- CreateTable
+CREATE TABLE "MotmVote" (
+    "matchId" INTEGER NOT NULL,
+    "voterId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MotmVote_pkey" PRIMARY KEY ("matchId","voterId")
+);
+
+-- CreateIndex
+CREATE INDEX "MotmVote_playerId_idx" ON "MotmVote"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_motmPlayerId_fkey" FOREIGN KEY ("motmPlayerId") REFERENCES "Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MotmVote" ADD CONSTRAINT "MotmVote_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MotmVote" ADD CONSTRAINT "MotmVote_voterId_fkey" FOREIGN KEY ("voterId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MotmVote" ADD CONSTRAINT "MotmVote_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
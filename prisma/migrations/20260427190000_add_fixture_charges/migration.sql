@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Fixture" ADD COLUMN     "chargedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "FixtureCharge" (
+    "fixtureId" INTEGER NOT NULL,
+    "playerId" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FixtureCharge_pkey" PRIMARY KEY ("fixtureId","playerId")
+);
+
+-- CreateIndex
+CREATE INDEX "FixtureCharge_playerId_idx" ON "FixtureCharge"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "FixtureCharge" ADD CONSTRAINT "FixtureCharge_fixtureId_fkey" FOREIGN KEY ("fixtureId") REFERENCES "Fixture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FixtureCharge" ADD CONSTRAINT "FixtureCharge_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "MatchPlayer" ADD COLUMN     "ballotToken" TEXT;
+
+-- Give the players of matches already saved a link too
+UPDATE "MatchPlayer" SET "ballotToken" = gen_random_uuid()::text;
+
+ALTER TABLE "MatchPlayer" ALTER COLUMN "ballotToken" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchPlayer_ballotToken_key" ON "MatchPlayer"("ballotToken");
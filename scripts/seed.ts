@@ -48,6 +48,7 @@ interface MockUser {
 interface MockPlayer {
   name: string // Player name
   rating: number // Skill rating (1-100)
+  position?: 'GK' | 'DEF' | 'MID' | 'FWD' // Optional position (defaults to MID)
 }
 
 interface MockTeam {
@@ -155,6 +156,7 @@ async function main() {
         data: {
           name: playerData.name,
           rating: playerData.rating,
+          position: playerData.position,
           userId: adminUser.id,
         },
       })
@@ -0,0 +1,47 @@
+import type { PrismaClient } from '@prisma/client'
+import { splitCost } from '../src/utils/ledger'
+
+/**
+ * Share out the cost of every fixture that has kicked off and not been charged yet
+ * between the players who are in, and save each share. Once saved, a share doesn't
+ * change when the fixture's cost or answers do, so past balances stay put.
+ *
+ * Run by the scheduled job (netlify/functions/scheduled-fixtures.ts, or hourly by the
+ * standalone server); the ledger queries only read what's been charged.
+ *
+ * @returns How many fixtures were charged
+ */
+export async function chargeFixtures(args: { prisma: PrismaClient }): Promise<number> {
+  const { prisma } = args
+  const now = new Date()
+  const due = await prisma.fixture.findMany({
+    where: { chargedAt: null, skipped: false, cost: { gt: 0 }, startsAt: { lte: now } },
+    select: { id: true },
+  })
+
+  let charged = 0
+  for (const { id } of due) {
+    const done = await prisma.$transaction(async (tx) => {
+      // Claiming the fixture first means two runs at once can't both charge it
+      const { count } = await tx.fixture.updateMany({
+        where: { id, chargedAt: null },
+        data: { chargedAt: now },
+      })
+      if (count === 0) return false
+
+      const fixture = await tx.fixture.findUniqueOrThrow({
+        where: { id },
+        include: { responses: { where: { status: 'IN' }, select: { playerId: true } } },
+      })
+      await tx.fixtureCharge.createMany({
+        data: splitCost(
+          fixture.cost ?? 0,
+          fixture.responses.map((r) => r.playerId),
+        ).map((share) => ({ fixtureId: id, ...share })),
+      })
+      return true
+    })
+    if (done) charged++
+  }
+  return charged
+}
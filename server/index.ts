@@ -19,6 +19,9 @@ import { startStandaloneServer } from '@apollo/server/standalone'
 import { typeDefs } from './schema.ts'
 import { resolvers } from './resolvers.ts'
 import { prisma } from './prisma.ts'
+import { createAllScheduledFixtures } from './scheduledFixtures.ts'
+import { chargeFixtures } from './fixtureCharges.ts'
+import { settleMotmPolls } from './motmPolls.ts'
 import { verifyToken, getUser } from '../src/graphql/resolvers/auth.ts'
 import type { User } from '@prisma/client'
 
@@ -118,6 +121,24 @@ async function startServer() {
   console.log(`🚀 Server ready at ${url}`)
   console.log(`🔐 Authentication enabled - use Authorization: Bearer <token> header`)
   console.log(`📖 GraphQL Playground available at ${url} for testing queries`)
+
+  // STEP 3: Background jobs
+  // Deployed, netlify/functions/scheduled-fixtures.ts runs these on a schedule;
+  // standalone, a timer does the same so queries never have to write
+  const runScheduledJobs = async () => {
+    try {
+      const created = await createAllScheduledFixtures({ prisma })
+      if (created > 0) console.log(`📅 Created ${created} scheduled fixtures`)
+      const charged = await chargeFixtures({ prisma })
+      if (charged > 0) console.log(`💷 Charged ${charged} fixtures`)
+      const settled = await settleMotmPolls({ prisma })
+      if (settled > 0) console.log(`⭐ Settled ${settled} man-of-the-match polls`)
+    } catch (error) {
+      console.error('❌ Error running scheduled jobs:', error)
+    }
+  }
+  await runScheduledJobs()
+  setInterval(runScheduledJobs, 60 * 60 * 1000)
 }
 
 /**
@@ -0,0 +1,44 @@
+import type { PrismaClient } from '@prisma/client'
+import { motmClosesAt, motmWinner } from '../src/utils/motm'
+
+/**
+ * Count the votes of every man-of-the-match poll that has closed and not been settled
+ * yet, and store the winner on the match.
+ *
+ * Run by the scheduled job (netlify/functions/scheduled-fixtures.ts, or hourly by the
+ * standalone server); Match.motm and the award counts only read what's been stored.
+ *
+ * @returns How many polls were settled
+ */
+export async function settleMotmPolls(args: { prisma: PrismaClient }): Promise<number> {
+  const { prisma } = args
+  const now = new Date()
+  const pending = await prisma.match.findMany({
+    where: { motmDecidedAt: null, playedAt: { lte: now } },
+    select: { id: true, playedAt: true, team: { select: { motmVotingHours: true } } },
+  })
+
+  let settled = 0
+  for (const match of pending) {
+    const closesAt = motmClosesAt(match.playedAt, match.team.motmVotingHours)
+    if (closesAt > now) continue
+
+    const done = await prisma.$transaction(async (tx) => {
+      // Claiming the match first means two runs at once can't both settle it
+      const { count } = await tx.match.updateMany({
+        where: { id: match.id, motmDecidedAt: null },
+        data: { motmDecidedAt: closesAt },
+      })
+      if (count === 0) return false
+
+      const votes = await tx.motmVote.findMany({ where: { matchId: match.id } })
+      await tx.match.update({
+        where: { id: match.id },
+        data: { motmPlayerId: motmWinner(votes) },
+      })
+      return true
+    })
+    if (done) settled++
+  }
+  return settled
+}
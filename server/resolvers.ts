@@ -27,8 +27,109 @@
  */
 
 import type { Context } from './index'
-import type { Team, Player, User, PrismaClient } from '@prisma/client'
+import type {
+  Prisma,
+  Team,
+  Player,
+  User,
+  PrismaClient,
+  Position,
+  PairingConstraint,
+  PairingConstraintType,
+  RatingAttribute,
+  Match,
+  MatchPlayer,
+  LineupMode,
+  MatchEvent,
+  MatchEventType,
+  PlayerRatingChange,
+  RatingChangeSource,
+  Season,
+  Fixture,
+  Payment,
+  FixtureResponse,
+  FixtureResponseChange,
+  FixtureSchedule,
+  RsvpStatus,
+  ScheduleFrequency,
+  Tournament,
+  TournamentFormat,
+  TournamentTeam,
+  TournamentFixture,
+} from '@prisma/client'
 import { authResolvers } from '../src/graphql/resolvers/auth'
+import { createScheduledFixtures } from './scheduledFixtures'
+import { correctedRatingChanges, type RatingChange } from '../src/utils/eloRatings'
+import { calculateLeagueTable, type LeagueTableRow } from '../src/utils/leagueTable'
+import {
+  countResponses,
+  FIXTURE_GRACE_MINUTES,
+  planRsvpChange,
+  waitlist,
+  waitlistPromotions,
+  type RsvpChange,
+  type RsvpCounts,
+} from '../src/utils/fixtures'
+import {
+  formatLabel,
+  isValidTimeZone,
+  MAX_PLAYERS_PER_SIDE,
+  MIN_PLAYERS_PER_SIDE,
+} from '../src/utils/fixtureSchedule'
+import {
+  buildLedger,
+  MAX_FIXTURE_COST,
+  playerBalances,
+  splitCost,
+  type FixtureFee,
+  type LedgerEntry,
+  type PlayerBalance,
+} from '../src/utils/ledger'
+import {
+  calculatePlayerStats,
+  type PlayerStatsSummary,
+  type TeammateCount,
+} from '../src/utils/playerStats'
+import { resolvePairingConstraints } from '../src/utils/pairingConstraints'
+import {
+  isMotmOpen,
+  MAX_MOTM_VOTING_HOURS,
+  MIN_MOTM_VOTING_HOURS,
+  motmClosesAt,
+  tallyMotmVotes,
+  validateMotmVote,
+  type MotmCount,
+} from '../src/utils/motm'
+import {
+  PEER_RATING_MATCHES,
+  summarizePeerRatings,
+  validatePeerVotes,
+  type PeerRatingSummary,
+} from '../src/utils/peerRatings'
+import {
+  calculateTournamentStandings,
+  fixtureWinner,
+  nextKnockoutFixture,
+  planTournament,
+  type TournamentStanding,
+} from '../src/utils/tournament'
+import {
+  attributeWeights,
+  calculateOverallRating,
+  MAX_RATING,
+  MIN_RATING,
+  toPairingPlayer,
+  type PlayerAttributeValue,
+} from '../src/utils/playerRatings'
+import {
+  effectiveStrength,
+  findBestTeamBalance,
+  findRandomizedTeamBalance,
+  type PairingOptions,
+  type TeamPair,
+} from '../src/utils/teamPairing'
+import { MAX_SEED } from '../src/utils/seededRandom'
+import { buildFairnessReport, type SideFairness } from '../src/utils/fairnessReport'
 
 /**
  * Extended Prisma Client Type
@@ -109,6 +210,850 @@ const requireAuth = (context: Context): User => {
   return context.user
 }
 
+type PlayerAttributeInput = { attributeId: number; value: number }
+
+/**
+ * Validate attribute scores for a player owned by ownerId
+ *
+ * @throws Error if an attribute isn't one of the owner's, is repeated, or a score is out of range
+ */
+const validateAttributeScores = async (
+  context: Context,
+  ownerId: number,
+  attributes: PlayerAttributeInput[],
+): Promise<void> => {
+  const ids = attributes.map((a) => a.attributeId)
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Each rating attribute can only be scored once per player')
+  }
+  if (attributes.some((a) => a.value < MIN_RATING || a.value > MAX_RATING)) {
+    throw new Error(`Attribute scores must be between ${MIN_RATING} and ${MAX_RATING}`)
+  }
+
+  const owned = await context.prisma.ratingAttribute.count({
+    where: { id: { in: ids }, userId: ownerId },
+  })
+  if (owned !== ids.length) {
+    throw new Error('You can only score players on your own rating attributes')
+  }
+}
+
+type RatingHistoryEntry = {
+  source: RatingChangeSource
+  changedById: number
+  matchId?: number
+}
+
+/**
+ * Add a change to a player's rating history. Nothing is logged when the rating didn't move.
+ * Pass the transaction oldRating was read in, so the entry matches what was replaced.
+ */
+const recordRatingChange = async (
+  db: Prisma.TransactionClient,
+  playerId: number,
+  oldRating: number,
+  newRating: number,
+  entry: RatingHistoryEntry,
+): Promise<void> => {
+  if (oldRating === newRating) return
+  await db.playerRatingChange.create({
+    data: { playerId, oldRating, newRating, ...entry },
+  })
+}
+
+/**
+ * Recalculate the overall rating of players from their attribute scores.
+ * Players left without any counted score keep their current rating.
+ * With changedById, each change is also logged to the rating history, so run it in the
+ * transaction that changed the scores.
+ *
+ * @returns IDs of the players whose rating comes from their attribute scores
+ */
+const syncOverallRatings = async (
+  db: Prisma.TransactionClient,
+  playerIds: number[],
+  changedById?: number,
+): Promise<Set<number>> => {
+  const derived = new Set<number>()
+  for (const playerId of playerIds) {
+    const values = await db.playerAttributeValue.findMany({
+      where: { playerId },
+      include: { attribute: true },
+    })
+    const rating = calculateOverallRating(
+      values.map((v) => ({ weight: v.attribute.weight, value: v.value })),
+    )
+    if (rating === null) continue
+
+    derived.add(playerId)
+    const player = await db.player.findUniqueOrThrow({
+      where: { id: playerId },
+      select: { rating: true },
+    })
+    if (player.rating === rating) continue
+
+    await db.player.update({ where: { id: playerId }, data: { rating } })
+    if (changedById !== undefined) {
+      await recordRatingChange(db, playerId, player.rating, rating, {
+        source: 'ATTRIBUTES',
+        changedById,
+      })
+    }
+  }
+  return derived
+}
+
+type PairingMode = 'BALANCED' | 'RANDOM'
+
+type GenerateTeamsOptions = {
+  seed?: number | null
+  ratingVariation?: number | null
+  iterations?: number | null
+  ignoreConstraints?: boolean | null
+  unevenHandicap?: number | null
+}
+
+/**
+ * TeamPair as the GraphQL TeamPair type returns it: sides made of the stored
+ * Player records, so ratings are the real ones even after a RANDOM run's jitter
+ */
+type GeneratedTeamPair = {
+  team1: Player[]
+  team2: Player[]
+  ratingDifference: number
+  attributeDifferences: Array<{ name: string; difference: number }>
+  isOptimal: boolean
+  substituteInfo: { teamWithSub: 1 | 2; substitute: Player; rotationPlayer: Player } | null
+  seed: number | null
+  handicap: number | null
+  fairness: GeneratedFairnessReport
+}
+
+type GeneratedSideFairness = Omit<SideFairness, 'positions'> & {
+  positions: Array<{ position: Position; count: number }>
+}
+
+type GeneratedFairnessReport = {
+  team1: GeneratedSideFairness
+  team2: GeneratedSideFairness
+  uncoveredPositions: Array<{ position: Position; missingFrom: 1 | 2 }>
+  team1WinProbability: number
+  team2WinProbability: number
+}
+
+/**
+ * Position counts as a list for GraphQL, leaving out positions nobody plays
+ */
+const toGeneratedSideFairness = (side: SideFairness): GeneratedSideFairness => ({
+  ...side,
+  positions: (Object.entries(side.positions) as Array<[Position, number]>)
+    .filter(([, count]) => count > 0)
+    .map(([position, count]) => ({ position, count })),
+})
+
+const isValidSeed = (seed: number): boolean =>
+  Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED
+
+/**
+ * Check generateTeams options before any work is done
+ *
+ * @throws Error if a value is out of range
+ */
+const validateGenerateTeamsOptions = (options: GenerateTeamsOptions): void => {
+  const { seed, ratingVariation, iterations, unevenHandicap } = options
+  if (seed != null && !isValidSeed(seed)) {
+    throw new Error(`Seed must be a whole number between 0 and ${MAX_SEED}`)
+  }
+  if (ratingVariation != null && (ratingVariation < 0 || ratingVariation > 20)) {
+    throw new Error('Rating variation must be between 0 and 20')
+  }
+  if (iterations != null && (iterations < 1 || iterations > 1000)) {
+    throw new Error('Iterations must be between 1 and 1000')
+  }
+  if (unevenHandicap != null && (unevenHandicap < 0 || unevenHandicap > 100)) {
+    throw new Error('Uneven handicap must be between 0 and 100')
+  }
+}
+
+/**
+ * Swap the pairing players in a TeamPair back to their Player records
+ */
+const toGeneratedTeamPair = (
+  pair: TeamPair,
+  playersById: Map<number, Player>,
+): GeneratedTeamPair => {
+  const record = (id: number) => playersById.get(id)!
+  const team1 = pair.team1.map((p) => record(p.id))
+  const team2 = pair.team2.map((p) => record(p.id))
+  const substituteId = pair.substituteInfo?.substitutePair.substitute.id
+  const onPitchTotal = (team: Player[]) =>
+    team.filter((p) => p.id !== substituteId).reduce((sum, p) => sum + p.rating, 0)
+  const fairness = buildFairnessReport(team1, team2, substituteId, pair.handicap)
+  // Uneven sides are compared on effective strength rather than raw totals
+  const ratingDifference =
+    pair.handicap !== undefined
+      ? Math.round(
+          Math.abs(
+            effectiveStrength(team1, team2, pair.handicap) -
+              effectiveStrength(team2, team1, pair.handicap),
+          ),
+        )
+      : Math.abs(onPitchTotal(team1) - onPitchTotal(team2))
+
+  return {
+    team1,
+    team2,
+    ratingDifference,
+    attributeDifferences: Object.entries(pair.attributeDifferences ?? {}).map(
+      ([name, difference]) => ({ name, difference }),
+    ),
+    isOptimal: pair.isOptimal,
+    substituteInfo: pair.substituteInfo
+      ? {
+          teamWithSub: pair.substituteInfo.teamWithSub,
+          substitute: record(pair.substituteInfo.substitutePair.substitute.id),
+          rotationPlayer: record(pair.substituteInfo.substitutePair.rotationPlayer.id),
+        }
+      : null,
+    seed: pair.seed ?? null,
+    handicap: pair.handicap ?? null,
+    fairness: {
+      ...fairness,
+      team1: toGeneratedSideFairness(fairness.team1),
+      team2: toGeneratedSideFairness(fairness.team2),
+    },
+  }
+}
+
+type MatchPlayerInput = { playerId: number; side: number; isSubstitute?: boolean | null }
+
+type CreateMatchInput = {
+  teamId: number
+  playedAt?: string | null
+  seasonId?: number | null
+  pairingMode?: LineupMode | null
+  pairingSeed?: number | null
+  players: MatchPlayerInput[]
+}
+
+type MatchPlayerWithPlayer = MatchPlayer & { player: Player }
+
+/**
+ * Check a lineup against the team's squad before it is saved
+ *
+ * @throws Error if a player isn't in the team or appears twice, a side isn't 1 or 2,
+ *   or a side has nobody on the pitch
+ */
+const validateLineup = (players: MatchPlayerInput[], squadIds: Set<number>): void => {
+  const ids = players.map((p) => p.playerId)
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Each player can only appear once in a lineup')
+  }
+  if (!ids.every((id) => squadIds.has(id))) {
+    throw new Error('Lineups can only include players in this team')
+  }
+  if (players.some((p) => p.side !== 1 && p.side !== 2)) {
+    throw new Error('Every player must be on side 1 or 2')
+  }
+  for (const side of [1, 2]) {
+    if (!players.some((p) => p.side === side && !p.isSubstitute)) {
+      throw new Error(`Side ${side} needs at least one player who isn't a substitute`)
+    }
+  }
+}
+
+type AddMatchEventInput = {
+  matchId: number
+  playerId: number
+  type: MatchEventType
+  minute?: number | null
+}
+
+const MAX_SCORE = 99
+const MAX_MINUTE = 200
+
+/**
+ * Load a match and its lineup for a change, checking the user owns its team
+ *
+ * @throws Error if the match isn't found or belongs to someone else's team
+ */
+const findManagedMatch = async (context: Context, user: User, matchId: number) => {
+  const match = await context.prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      team: { select: { userId: true, autoRating: true, motmVotingHours: true } },
+      players: true,
+    },
+  })
+  if (!match || (match.team.userId !== user.id && user.role !== 'ADMIN')) {
+    throw new Error('You can only manage matches for your own teams')
+  }
+  return match
+}
+
+/**
+ * A participant's ballot as the Ballot type returns it
+ */
+type BallotSummary = {
+  matchId: number
+  playedAt: Date
+  voter: { id: number; name: string }
+  players: Array<{ id: number; name: string }>
+  hasRated: boolean
+  motmOpen: boolean
+  motmClosesAt: Date
+  motmVote: { id: number; name: string } | null
+}
+
+/**
+ * Load the participant a voting link belongs to, with their match's lineup. The token is
+ * the only proof of who is voting, so it is never taken from anyone but the link.
+ */
+const findBallotEntry = async (context: Context, token: string) => {
+  const name = { select: { id: true, name: true } }
+  return context.prisma.matchPlayer.findUnique({
+    where: { ballotToken: token },
+    include: {
+      player: name,
+      match: {
+        include: {
+          team: { select: { motmVotingHours: true } },
+          players: {
+            include: { player: name },
+            orderBy: [{ side: 'asc' }, { isSubstitute: 'asc' }, { playerId: 'asc' }],
+          },
+        },
+      },
+    },
+  })
+}
+
+type BallotEntry = NonNullable<Awaited<ReturnType<typeof findBallotEntry>>>
+
+const toBallot = async (context: Context, entry: BallotEntry): Promise<BallotSummary> => {
+  const { match, playerId } = entry
+  const [rated, vote] = await Promise.all([
+    context.prisma.peerRating.count({ where: { matchId: match.id, raterId: playerId } }),
+    context.prisma.motmVote.findUnique({
+      where: { matchId_voterId: { matchId: match.id, voterId: playerId } },
+    }),
+  ])
+  const { motmVotingHours } = match.team
+  return {
+    matchId: match.id,
+    playedAt: match.playedAt,
+    voter: entry.player,
+    players: match.players.filter((p) => p.playerId !== playerId).map((p) => p.player),
+    hasRated: rated > 0,
+    motmOpen: match.motmDecidedAt === null && isMotmOpen(match.playedAt, motmVotingHours),
+    motmClosesAt: match.motmDecidedAt ?? motmClosesAt(match.playedAt, motmVotingHours),
+    motmVote: vote
+      ? (match.players.find((p) => p.playerId === vote.playerId)?.player ?? null)
+      : null,
+  }
+}
+
+/**
+ * @throws Error unless both scores are whole numbers from 0 to MAX_SCORE
+ */
+const validateScores = (team1Score: number, team2Score: number): void => {
+  for (const score of [team1Score, team2Score]) {
+    if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
+      throw new Error(`Scores must be whole numbers between 0 and ${MAX_SCORE}`)
+    }
+  }
+}
+
+/**
+ * Rating changes a score would make for a match's lineup, from each player's current
+ * rating. When the match has already moved ratings, that is taken back first so a
+ * corrected score replaces the old changes. Players whose overall comes from attribute
+ * scores are skipped, since syncOverallRatings would undo the change.
+ */
+const ratingChangesFor = async (
+  db: Prisma.TransactionClient,
+  matchId: number,
+  team1Score: number,
+  team2Score: number,
+): Promise<RatingChange[]> => {
+  const lineup = await db.matchPlayer.findMany({
+    where: { matchId },
+    include: { player: { include: { attributeValues: { include: { attribute: true } } } } },
+    orderBy: [{ side: 'asc' }, { isSubstitute: 'asc' }, { playerId: 'asc' }],
+  })
+
+  const participants = lineup.map((entry) => ({
+    playerId: entry.playerId,
+    rating: entry.player.rating,
+    side: entry.side === 1 ? (1 as const) : (2 as const),
+    isSubstitute: entry.isSubstitute,
+    fromAttributes:
+      calculateOverallRating(
+        entry.player.attributeValues.map((v) => ({ weight: v.attribute.weight, value: v.value })),
+      ) !== null,
+  }))
+
+  // What the first result and any corrections have moved each rating by so far
+  const history = await db.playerRatingChange.findMany({
+    where: { matchId, source: 'MATCH_RESULT' },
+    select: { playerId: true, oldRating: true, newRating: true },
+  })
+  const applied = new Map<number, number>()
+  for (const entry of history) {
+    applied.set(
+      entry.playerId,
+      (applied.get(entry.playerId) ?? 0) + entry.newRating - entry.oldRating,
+    )
+  }
+  return correctedRatingChanges(participants, team1Score, team2Score, applied)
+}
+
+const SERIALIZABLE_RETRIES = 3
+
+/**
+ * Run an interactive transaction at serializable isolation, so nothing it read can
+ * change before it writes. Postgres aborts one of two conflicting transactions (P2034);
+ * that one is run again.
+ */
+const serializableTransaction = async <T>(
+  context: Context,
+  work: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await context.prisma.$transaction(work, { isolationLevel: 'Serializable' })
+    } catch (error) {
+      const code = (error as { code?: string }).code
+      if (code !== 'P2034' || attempt >= SERIALIZABLE_RETRIES) throw error
+    }
+  }
+}
+
+/**
+ * A match's man-of-the-match poll as MotmPoll returns it
+ */
+type MotmPollSummary = {
+  closesAt: Date
+  isOpen: boolean
+  voterIds: number[]
+  tally: MotmCount[]
+  winnerId: number | null
+}
+
+/**
+ * Totals of the votes a player has had in their last PEER_RATING_MATCHES rated matches
+ */
+const peerRatingSummary = async (
+  context: Context,
+  playerId: number,
+): Promise<PeerRatingSummary> => {
+  const matches = await context.prisma.match.findMany({
+    where: { peerRatings: { some: { playerId } } },
+    orderBy: [{ playedAt: 'desc' }, { id: 'desc' }],
+    take: PEER_RATING_MATCHES,
+    select: { id: true },
+  })
+  const votes = await context.prisma.peerRating.findMany({
+    where: { playerId, matchId: { in: matches.map((m) => m.id) } },
+    select: { matchId: true, score: true },
+  })
+  return summarizePeerRatings(votes)
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * playedAt filter for an optional from/to range. A date-only "to" includes that whole day.
+ *
+ * @throws Error if either end isn't a valid date or the range is backwards
+ */
+const playedAtRange = (from?: string | null, to?: string | null): { gte?: Date; lt?: Date } => {
+  const range: { gte?: Date; lt?: Date } = {}
+  if (from) {
+    range.gte = new Date(from)
+    if (Number.isNaN(range.gte.getTime())) throw new Error('from must be a valid date')
+  }
+  if (to) {
+    const end = new Date(to)
+    if (Number.isNaN(end.getTime())) throw new Error('to must be a valid date')
+    if (DATE_ONLY.test(to)) end.setUTCDate(end.getUTCDate() + 1)
+    else end.setTime(end.getTime() + 1)
+    range.lt = end
+  }
+  if (range.gte && range.lt && range.gte >= range.lt) {
+    throw new Error('from must be before to')
+  }
+  return range
+}
+
+type SeasonInput = {
+  name: string
+  startDate: string
+  endDate: string
+  minAppearances?: number | null
+}
+
+const MAX_MIN_APPEARANCES = 100
+
+/**
+ * Check a season's fields and turn its dates into midnight UTC
+ *
+ * @throws Error if the name is blank, a date isn't YYYY-MM-DD, the season ends before
+ *   it starts, or minAppearances is out of range
+ */
+const parseSeasonInput = (input: SeasonInput) => {
+  const name = input.name.trim()
+  if (!name) {
+    throw new Error('Season name is required')
+  }
+  const [startDate, endDate] = [input.startDate, input.endDate].map((value, index) => {
+    const date = new Date(value)
+    if (!DATE_ONLY.test(value) || Number.isNaN(date.getTime())) {
+      throw new Error(`${index === 0 ? 'startDate' : 'endDate'} must be a date (YYYY-MM-DD)`)
+    }
+    return date
+  }) as [Date, Date]
+  if (endDate < startDate) {
+    throw new Error('A season must end on or after its start date')
+  }
+  const minAppearances = input.minAppearances ?? 0
+  if (
+    !Number.isInteger(minAppearances) ||
+    minAppearances < 0 ||
+    minAppearances > MAX_MIN_APPEARANCES
+  ) {
+    throw new Error(`minAppearances must be a whole number between 0 and ${MAX_MIN_APPEARANCES}`)
+  }
+  return { name, startDate, endDate, minAppearances }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Check a match falls on one of its season's days. Season dates are calendar days and the
+ * app tags matches by the local date, so a day in any time zone counts (UTC-12 to UTC+14).
+ *
+ * @throws Error if playedAt is before the season starts or after it ends
+ */
+const checkPlayedInSeason = (
+  playedAt: Date,
+  season: { name: string; startDate: Date; endDate: Date },
+): void => {
+  const earliest = season.startDate.getTime() - 14 * HOUR_MS
+  const latest = season.endDate.getTime() + 36 * HOUR_MS
+  if (playedAt.getTime() < earliest || playedAt.getTime() >= latest) {
+    const [start, end] = [season.startDate, season.endDate].map((d) => d.toISOString().slice(0, 10))
+    throw new Error(`"${season.name}" runs from ${start} to ${end}; this match is outside it`)
+  }
+}
+
+/**
+ * @throws Error if another of the team's seasons shares any day with the given dates
+ */
+const checkSeasonOverlap = async (
+  context: Context,
+  teamId: number,
+  startDate: Date,
+  endDate: Date,
+  excludeId?: number,
+): Promise<void> => {
+  const overlapping = await context.prisma.season.findFirst({
+    where: {
+      teamId,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+  })
+  if (overlapping) {
+    throw new Error(`Seasons can't overlap: "${overlapping.name}" covers some of these dates`)
+  }
+}
+
+/**
+ * Load a season for a change, checking the user owns its team
+ *
+ * @throws Error if the season isn't found or belongs to someone else's team
+ */
+const findManagedSeason = async (context: Context, user: User, seasonId: number) => {
+  const season = await context.prisma.season.findUnique({
+    where: { id: seasonId },
+    include: { team: { select: { userId: true } } },
+  })
+  if (!season || (season.team.userId !== user.id && user.role !== 'ADMIN')) {
+    throw new Error('You can only manage seasons for your own teams')
+  }
+  return season
+}
+
+type FixtureInput = {
+  startsAt: string
+  venue?: string | null
+  capacity?: number | null
+  cost?: number | null
+}
+
+const MIN_CAPACITY = 2
+const MAX_CAPACITY = 100
+
+/**
+ * Check a fixture or schedule cost, in pence/cents
+ *
+ * @throws Error if it's negative, fractional or implausibly large
+ */
+const parseCost = (cost: number | null | undefined): number | null => {
+  if (cost == null) return null
+  if (!Number.isInteger(cost) || cost < 0 || cost > MAX_FIXTURE_COST) {
+    throw new Error(`Cost must be a whole number of pence/cents up to ${MAX_FIXTURE_COST}`)
+  }
+  return cost
+}
+
+/**
+ * Check a fixture's fields
+ *
+ * @throws Error if startsAt isn't a date or the capacity or cost is out of range
+ */
+const parseFixtureInput = (input: FixtureInput) => {
+  const startsAt = new Date(input.startsAt)
+  if (Number.isNaN(startsAt.getTime())) {
+    throw new Error('startsAt must be a valid date')
+  }
+  const capacity = input.capacity ?? null
+  if (
+    capacity !== null &&
+    (!Number.isInteger(capacity) || capacity < MIN_CAPACITY || capacity > MAX_CAPACITY)
+  ) {
+    throw new Error(`Capacity must be a whole number between ${MIN_CAPACITY} and ${MAX_CAPACITY}`)
+  }
+  return { startsAt, venue: input.venue?.trim() || null, capacity, cost: parseCost(input.cost) }
+}
+
+/**
+ * Fixtures kicking off after this still count as upcoming
+ */
+const upcomingFrom = (): Date => new Date(Date.now() - FIXTURE_GRACE_MINUTES * 60_000)
+
+/**
+ * Load a fixture for a change, checking the user owns its team
+ *
+ * @throws Error if the fixture isn't found or belongs to someone else's team
+ */
+const findManagedFixture = async (context: Context, user: User, fixtureId: number) => {
+  const fixture = await context.prisma.fixture.findUnique({
+    where: { id: fixtureId },
+    include: { team: { select: { userId: true } } },
+  })
+  if (!fixture || (fixture.team.userId !== user.id && user.role !== 'ADMIN')) {
+    throw new Error('You can only manage fixtures for your own teams')
+  }
+  return fixture
+}
+
+/**
+ * Write a fixture's answer changes together with their history. Run it in the transaction
+ * that read the answers the changes were planned from, so a place can't be given twice.
+ */
+const applyRsvpChanges = async (
+  tx: Prisma.TransactionClient,
+  fixtureId: number,
+  changes: RsvpChange[],
+): Promise<void> => {
+  const where = (playerId: number) => ({ fixtureId_playerId: { fixtureId, playerId } })
+  for (const { playerId, status, promoted } of changes) {
+    if (status) {
+      await tx.fixtureResponse.upsert({
+        where: where(playerId),
+        create: { fixtureId, playerId, status },
+        update: { status },
+      })
+    } else {
+      await tx.fixtureResponse.delete({ where: where(playerId) })
+    }
+    await tx.fixtureResponseChange.create({
+      data: { fixtureId, playerId, status, promoted },
+    })
+  }
+}
+
+type FixtureScheduleInput = {
+  frequency: ScheduleFrequency
+  weekday: number
+  time: string
+  timeZone: string
+  playersPerSide: number
+  venue?: string | null
+  cost?: number | null
+  startDate?: string | null
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Check a schedule's fields, turning its start date into midnight UTC
+ *
+ * @throws Error if the weekday, time, time zone, players per side, cost or start date
+ *   isn't valid
+ */
+const parseFixtureScheduleInput = (input: FixtureScheduleInput) => {
+  if (!Number.isInteger(input.weekday) || input.weekday < 0 || input.weekday > 6) {
+    throw new Error('weekday must be 0 (Sunday) to 6 (Saturday)')
+  }
+  if (!TIME_OF_DAY.test(input.time)) {
+    throw new Error('time must be HH:MM')
+  }
+  if (!isValidTimeZone(input.timeZone)) {
+    throw new Error(`Unknown time zone: ${input.timeZone}`)
+  }
+  if (
+    !Number.isInteger(input.playersPerSide) ||
+    input.playersPerSide < MIN_PLAYERS_PER_SIDE ||
+    input.playersPerSide > MAX_PLAYERS_PER_SIDE
+  ) {
+    throw new Error(
+      `playersPerSide must be a whole number between ${MIN_PLAYERS_PER_SIDE} and ${MAX_PLAYERS_PER_SIDE}`,
+    )
+  }
+  let startDate: Date | undefined
+  if (input.startDate != null) {
+    startDate = new Date(input.startDate)
+    if (!DATE_ONLY.test(input.startDate) || Number.isNaN(startDate.getTime())) {
+      throw new Error('startDate must be a date (YYYY-MM-DD)')
+    }
+  }
+  return {
+    frequency: input.frequency,
+    weekday: input.weekday,
+    time: input.time,
+    timeZone: input.timeZone,
+    playersPerSide: input.playersPerSide,
+    venue: input.venue?.trim() || null,
+    cost: parseCost(input.cost),
+    startDate,
+  }
+}
+
+/**
+ * Delete the upcoming fixtures a schedule created that are still as it made them: not
+ * moved, skipped or edited, and nobody has answered. Used when the schedule changes or
+ * stops, so they don't linger on the old day.
+ */
+const deleteUntouchedScheduledFixtures = async (
+  context: Context,
+  schedule: FixtureSchedule,
+): Promise<void> => {
+  const fixtures = await context.prisma.fixture.findMany({
+    where: {
+      teamId: schedule.teamId,
+      scheduledFor: { not: null },
+      skipped: false,
+      startsAt: { gte: new Date() },
+      responses: { none: {} },
+    },
+  })
+  const untouched = fixtures.filter(
+    (f) =>
+      f.startsAt.getTime() === f.scheduledFor?.getTime() &&
+      f.venue === schedule.venue &&
+      f.capacity === schedule.playersPerSide * 2 &&
+      f.cost === schedule.cost,
+  )
+  if (untouched.length === 0) return
+  await context.prisma.fixture.deleteMany({ where: { id: { in: untouched.map((f) => f.id) } } })
+}
+
+type PaymentInput = {
+  playerId: number
+  amount: number
+  note?: string | null
+  paidAt?: string | null
+}
+
+/**
+ * A team's fees and payments, for the ledger and balances. Fees are the shares saved
+ * when each fixture was charged (see chargeFixtures), not worked out again from the
+ * fixture as it is now.
+ */
+const teamAccounts = async (
+  context: Context,
+  teamId: number,
+): Promise<{ fees: FixtureFee[]; payments: Payment[] }> => {
+  const [charges, payments] = await Promise.all([
+    context.prisma.fixtureCharge.findMany({
+      where: { fixture: { teamId } },
+      include: { fixture: { select: { startsAt: true } } },
+    }),
+    context.prisma.payment.findMany({ where: { teamId } }),
+  ])
+  return {
+    fees: charges.map((c) => ({
+      fixtureId: c.fixtureId,
+      playerId: c.playerId,
+      amount: c.amount,
+      startsAt: c.fixture.startsAt,
+    })),
+    payments,
+  }
+}
+
+/**
+ * Load a team, checking the user owns it
+ *
+ * @throws Error if the team isn't found or belongs to someone else
+ */
+const findManagedTeam = async (context: Context, user: User, teamId: number) => {
+  const team = await context.prisma.team.findUnique({ where: { id: teamId } })
+  if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+    throw new Error('You can only manage your own teams')
+  }
+  return team
+}
+
+type CreateTournamentInput = {
+  name: string
+  format: TournamentFormat
+  pitches: number
+  slotMinutes: number
+  startsAt?: string | null
+  teams: Array<{ name: string; playerIds: number[] }>
+}
+
+const MAX_PITCHES = 10
+const MIN_SLOT_MINUTES = 5
+const MAX_SLOT_MINUTES = 240
+
+/**
+ * Load a tournament for a change, checking the user created it
+ *
+ * @throws Error if the tournament isn't found or belongs to someone else
+ */
+const findManagedTournament = async (context: Context, user: User, tournamentId: number) => {
+  const tournament = await context.prisma.tournament.findUnique({
+    where: { id: tournamentId },
+  })
+  if (!tournament || (tournament.userId !== user.id && user.role !== 'ADMIN')) {
+    throw new Error('You can only manage your own tournaments')
+  }
+  return tournament
+}
+
+/**
+ * A tournament's teams in seed order and its fixtures, for the standings and the winner
+ */
+const tournamentResults = async (context: Context, tournamentId: number) => {
+  const [teams, fixtures] = await Promise.all([
+    context.prisma.tournamentTeam.findMany({
+      where: { tournamentId },
+      orderBy: { seed: 'asc' },
+    }),
+    context.prisma.tournamentFixture.findMany({
+      where: { tournamentId },
+      orderBy: [{ round: 'asc' }, { bracketIndex: 'asc' }],
+    }),
+  ])
+  return { teams, fixtures }
+}
+
 /**
  * MAIN RESOLVERS OBJECT
  *
@@ -286,30 +1231,484 @@ export const resolvers = {
 
       return teamPlayers.map((tp) => tp.team).filter((team): team is Team => team !== null)
     },
-  },
 
-  Team: {
-    players: async (parent: Team, _: unknown, { prisma }: Context): Promise<Player[]> => {
-      const extendedPrisma = prisma as PrismaClientWithTeamPlayer
-      const teamPlayers = await extendedPrisma.teamPlayer.findMany({
-        where: { teamId: parent.id },
-        include: { player: true },
-      })
-      const players: Player[] = []
-      for (const tp of teamPlayers) {
-        if (tp.player) {
-          players.push(tp.player)
-        }
-      }
-      return players
-    },
-    playerCount: async (parent: Team, _: unknown, { prisma }: Context): Promise<number> => {
-      const extendedPrisma = prisma as PrismaClientWithTeamPlayer
-      return await extendedPrisma.teamPlayer.count({
-        where: { teamId: parent.id },
+    ratingAttributes: async (
+      _: unknown,
+      __: unknown,
+      context: Context,
+    ): Promise<RatingAttribute[]> => {
+      const user = requireAuth(context)
+
+      return context.prisma.ratingAttribute.findMany({
+        where: { userId: user.id },
+        orderBy: { id: 'asc' },
       })
     },
-    user: async (parent: Team, _: unknown, { prisma }: Context): Promise<User | null> => {
+
+    /**
+     * Generate Teams Query
+     *
+     * Splits the selected players of a team into two sides with the same
+     * teamPairing algorithms the app runs in the browser.
+     *
+     * @param teamId - Team the players are picked from
+     * @param playerIds - Players taking part (all must be in the team)
+     * @param mode - BALANCED (Generate Teams) or RANDOM (Mix Teams)
+     * @param options - Seed, rating variation, iterations and whether to skip saved rules
+     * @param context - Contains authenticated user info (required)
+     * @returns The generated pair with Player records on each side
+     * @throws Error if the team isn't found/owned, a player isn't in it, or the rules contradict
+     */
+    generateTeams: async (
+      _: unknown,
+      {
+        teamId,
+        playerIds,
+        mode,
+        options,
+      }: {
+        teamId: number
+        playerIds: number[]
+        mode: PairingMode
+        options?: GenerateTeamsOptions | null
+      },
+      context: Context,
+    ): Promise<GeneratedTeamPair> => {
+      const user = requireAuth(context)
+
+      // Same ownership rule as the team query: admins can use any team
+      const team = await context.prisma.team.findUnique({
+        where: user.role === 'ADMIN' ? { id: teamId } : { id: teamId, userId: user.id },
+      })
+      if (!team) {
+        throw new Error(`Team with id ${teamId} not found`)
+      }
+
+      const settings = options ?? {}
+      validateGenerateTeamsOptions(settings)
+      if (new Set(playerIds).size !== playerIds.length) {
+        throw new Error('Each player can only be selected once')
+      }
+      if (playerIds.length < 2) {
+        throw new Error('Need at least 2 players to create teams')
+      }
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      const teamPlayers = await extendedPrisma.teamPlayer.findMany({
+        where: { teamId },
+        include: { player: true },
+      })
+      const playersById = new Map(
+        teamPlayers
+          .map((tp) => tp.player)
+          .filter((p): p is Player => !!p)
+          .map((p) => [p.id, p]),
+      )
+      if (!playerIds.every((id) => playersById.has(id))) {
+        throw new Error('Teams can only be generated from players in this team')
+      }
+
+      const values = await context.prisma.playerAttributeValue.findMany({
+        where: { playerId: { in: playerIds } },
+        include: { attribute: true },
+        orderBy: { attributeId: 'asc' },
+      })
+      const selected = playerIds.map((id) => {
+        const player = playersById.get(id)!
+        return {
+          ...player,
+          attributes: values
+            .filter((v) => v.playerId === id)
+            .map((v) => ({
+              attributeId: v.attributeId,
+              name: v.attribute.name,
+              weight: v.attribute.weight,
+              value: v.value,
+            })),
+        }
+      })
+
+      const pairingOptions: PairingOptions = {
+        constraints: settings.ignoreConstraints
+          ? []
+          : await context.prisma.pairingConstraint.findMany({ where: { teamId } }),
+        attributeWeights: attributeWeights(selected),
+        seed: settings.seed ?? undefined,
+        unevenSides:
+          settings.unevenHandicap != null ? { handicap: settings.unevenHandicap } : undefined,
+      }
+      const pairingPlayers = selected.map(toPairingPlayer)
+
+      const pair =
+        mode === 'RANDOM'
+          ? findRandomizedTeamBalance(
+              pairingPlayers,
+              settings.ratingVariation ?? 5,
+              settings.iterations ?? 150,
+              pairingOptions,
+            )
+          : findBestTeamBalance(pairingPlayers, settings.iterations ?? 100, pairingOptions)
+
+      return toGeneratedTeamPair(pair, playersById)
+    },
+
+    /**
+     * Matches Query
+     *
+     * Fetches a team's saved lineups, most recent first. Without a teamId it covers all
+     * of the user's teams, for pairing views that aren't tied to one team.
+     *
+     * @param teamId - Team to list matches for; omit for all the user's teams
+     * @param context - Contains authenticated user info (required)
+     * @returns The matches
+     * @throws Error if the team isn't found or isn't owned by the user
+     */
+    matches: async (
+      _: unknown,
+      { teamId }: { teamId?: number | null },
+      context: Context,
+    ): Promise<Match[]> => {
+      const user = requireAuth(context)
+
+      if (teamId != null) {
+        // Same ownership rule as the team query: admins can see any team
+        const team = await context.prisma.team.findUnique({
+          where: user.role === 'ADMIN' ? { id: teamId } : { id: teamId, userId: user.id },
+        })
+        if (!team) {
+          throw new Error(`Team with id ${teamId} not found`)
+        }
+      }
+
+      return context.prisma.match.findMany({
+        where: teamId != null ? { teamId } : { team: { userId: user.id } },
+        orderBy: [{ playedAt: 'desc' }, { id: 'desc' }],
+      })
+    },
+
+    /**
+     * Match Query (Single)
+     *
+     * Fetches a saved lineup by ID with ownership verification through its team.
+     *
+     * @param id - Match ID to fetch
+     * @param context - Contains authenticated user info (required)
+     * @returns Match or null if not found/not owned
+     */
+    match: async (_: unknown, { id }: { id: number }, context: Context): Promise<Match | null> => {
+      const user = requireAuth(context)
+
+      const match = await context.prisma.match.findUnique({
+        where: { id },
+        include: { team: { select: { userId: true } } },
+      })
+      if (!match || (match.team.userId !== user.id && user.role !== 'ADMIN')) {
+        return null
+      }
+      return match
+    },
+
+    /**
+     * Rating Changes Preview Query
+     *
+     * Works out how a score would move each player's rating, without saving anything,
+     * so the change can be checked before the result is recorded.
+     *
+     * @param matchId - Match the score is for
+     * @param team1Score - Goals for side 1
+     * @param team2Score - Goals for side 2
+     * @param context - Contains authenticated user info (required)
+     * @returns One change per player in the lineup
+     * @throws Error if the match isn't owned by the user or a score is out of range
+     */
+    previewRatingChanges: async (
+      _: unknown,
+      {
+        matchId,
+        team1Score,
+        team2Score,
+      }: { matchId: number; team1Score: number; team2Score: number },
+      context: Context,
+    ): Promise<RatingChange[]> => {
+      const user = requireAuth(context)
+      await findManagedMatch(context, user, matchId)
+      validateScores(team1Score, team2Score)
+
+      return ratingChangesFor(context.prisma, matchId, team1Score, team2Score)
+    },
+
+    /**
+     * Ballot Query
+     *
+     * Opens a participant's voting page from the token in their link. Anyone with the
+     * link can open it, so it only shares the lineup's names.
+     *
+     * @param token - The participant's ballot token
+     * @returns The ballot, or null if the token isn't anyone's
+     */
+    ballot: async (
+      _: unknown,
+      { token }: { token: string },
+      context: Context,
+    ): Promise<BallotSummary | null> => {
+      const entry = await findBallotEntry(context, token)
+      return entry ? toBallot(context, entry) : null
+    },
+
+    /**
+     * League Table Query
+     *
+     * Ranks the players in a season's tagged matches as individuals, each taking their
+     * side's result: 3 points for a win, 1 for a draw.
+     *
+     * @param seasonId - Season to rank
+     * @param minAppearances - Overrides the season's qualification rule
+     * @param context - Contains authenticated user info (required)
+     * @returns One row per player, top of the table first
+     * @throws Error if the season isn't found or isn't owned by the user
+     */
+    leagueTable: async (
+      _: unknown,
+      { seasonId, minAppearances }: { seasonId: number; minAppearances?: number | null },
+      context: Context,
+    ): Promise<LeagueTableRow[]> => {
+      const user = requireAuth(context)
+
+      const season = await context.prisma.season.findUnique({
+        where: { id: seasonId },
+        include: { team: { select: { userId: true } } },
+      })
+      if (!season || (season.team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error(`Season with id ${seasonId} not found`)
+      }
+      if (minAppearances != null && (!Number.isInteger(minAppearances) || minAppearances < 0)) {
+        throw new Error('minAppearances must be a whole number of 0 or more')
+      }
+
+      const matches = await context.prisma.match.findMany({
+        where: { seasonId },
+        select: {
+          team1Score: true,
+          team2Score: true,
+          players: { select: { playerId: true, side: true } },
+        },
+      })
+      return calculateLeagueTable(matches, minAppearances ?? season.minAppearances)
+    },
+
+    /**
+     * Fixtures Query
+     *
+     * Fetches upcoming fixtures (or every fixture with includePast), soonest first.
+     * Without a teamId it covers all of the user's teams, for pickers that aren't tied
+     * to one team.
+     *
+     * @param teamId - Team to list fixtures for; omit for all the user's teams
+     * @param includePast - Also return fixtures that have already been played
+     * @param includeSkipped - Also return scheduled fixtures skipped this time
+     * @param context - Contains authenticated user info (required)
+     * @returns The fixtures
+     * @throws Error if the team isn't found or isn't owned by the user
+     */
+    fixtures: async (
+      _: unknown,
+      {
+        teamId,
+        includePast,
+        includeSkipped,
+      }: { teamId?: number | null; includePast?: boolean | null; includeSkipped?: boolean | null },
+      context: Context,
+    ): Promise<Fixture[]> => {
+      const user = requireAuth(context)
+
+      if (teamId != null) {
+        // Same ownership rule as the team query: admins can see any team
+        const team = await context.prisma.team.findUnique({
+          where: user.role === 'ADMIN' ? { id: teamId } : { id: teamId, userId: user.id },
+        })
+        if (!team) {
+          throw new Error(`Team with id ${teamId} not found`)
+        }
+      }
+
+      return context.prisma.fixture.findMany({
+        where: {
+          ...(teamId != null ? { teamId } : { team: { userId: user.id } }),
+          ...(includePast ? {} : { startsAt: { gte: upcomingFrom() } }),
+          ...(includeSkipped ? {} : { skipped: false }),
+        },
+        orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+      })
+    },
+
+    /**
+     * Fixture Query (Single)
+     *
+     * @param id - Fixture ID to fetch
+     * @param context - Contains authenticated user info (required)
+     * @returns Fixture or null if not found/not owned
+     */
+    fixture: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<Fixture | null> => {
+      const user = requireAuth(context)
+
+      const fixture = await context.prisma.fixture.findUnique({
+        where: { id },
+        include: { team: { select: { userId: true } } },
+      })
+      if (!fixture || (fixture.team.userId !== user.id && user.role !== 'ADMIN')) {
+        return null
+      }
+      return fixture
+    },
+
+    /**
+     * Team Balances Query
+     *
+     * @param teamId - Team whose accounts to total
+     * @param context - Contains authenticated user info (required)
+     * @returns Each player's totals, most owed first
+     * @throws Error if the team isn't found or isn't owned by the user
+     */
+    teamBalances: async (
+      _: unknown,
+      { teamId }: { teamId: number },
+      context: Context,
+    ): Promise<PlayerBalance[]> => {
+      const user = requireAuth(context)
+      await findManagedTeam(context, user, teamId)
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      const [{ fees, payments }, squad] = await Promise.all([
+        teamAccounts(context, teamId),
+        extendedPrisma.teamPlayer.findMany({ where: { teamId } }),
+      ])
+      return playerBalances(
+        fees,
+        payments,
+        squad.map((tp) => tp.playerId),
+      )
+    },
+
+    /**
+     * Ledger Query
+     *
+     * @param teamId - Team whose accounts to list
+     * @param playerId - Only this player's entries; omit for everyone's
+     * @param context - Contains authenticated user info (required)
+     * @returns Fees and payments, oldest first, with running balances
+     * @throws Error if the team isn't found or isn't owned by the user
+     */
+    ledger: async (
+      _: unknown,
+      { teamId, playerId }: { teamId: number; playerId?: number | null },
+      context: Context,
+    ): Promise<LedgerEntry[]> => {
+      const user = requireAuth(context)
+      await findManagedTeam(context, user, teamId)
+
+      const { fees, payments } = await teamAccounts(context, teamId)
+      const entries = buildLedger(fees, payments)
+      return playerId != null ? entries.filter((e) => e.playerId === playerId) : entries
+    },
+
+    /**
+     * Tournaments Query
+     *
+     * @param context - Contains authenticated user info (required)
+     * @returns The user's tournaments, most recent first
+     */
+    tournaments: async (_: unknown, __: unknown, context: Context): Promise<Tournament[]> => {
+      const user = requireAuth(context)
+
+      return context.prisma.tournament.findMany({
+        where: { userId: user.id },
+        orderBy: [{ startsAt: 'desc' }, { id: 'desc' }],
+      })
+    },
+
+    /**
+     * Tournament Query (Single)
+     *
+     * @param id - Tournament ID to fetch
+     * @param context - Contains authenticated user info (required)
+     * @returns Tournament or null if not found/not owned
+     */
+    tournament: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<Tournament | null> => {
+      const user = requireAuth(context)
+
+      const tournament = await context.prisma.tournament.findUnique({ where: { id } })
+      if (!tournament || (tournament.userId !== user.id && user.role !== 'ADMIN')) {
+        return null
+      }
+      return tournament
+    },
+  },
+
+  Team: {
+    players: async (parent: Team, _: unknown, { prisma }: Context): Promise<Player[]> => {
+      const extendedPrisma = prisma as PrismaClientWithTeamPlayer
+      const teamPlayers = await extendedPrisma.teamPlayer.findMany({
+        where: { teamId: parent.id },
+        include: { player: true },
+      })
+      const players: Player[] = []
+      for (const tp of teamPlayers) {
+        if (tp.player) {
+          players.push(tp.player)
+        }
+      }
+      return players
+    },
+    playerCount: async (parent: Team, _: unknown, { prisma }: Context): Promise<number> => {
+      const extendedPrisma = prisma as PrismaClientWithTeamPlayer
+      return await extendedPrisma.teamPlayer.count({
+        where: { teamId: parent.id },
+      })
+    },
+    pairingConstraints: async (
+      parent: Team,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<PairingConstraint[]> => {
+      return prisma.pairingConstraint.findMany({
+        where: { teamId: parent.id },
+        orderBy: { id: 'asc' },
+      })
+    },
+    seasons: async (parent: Team, _: unknown, { prisma }: Context): Promise<Season[]> => {
+      return prisma.season.findMany({
+        where: { teamId: parent.id },
+        orderBy: { startDate: 'desc' },
+      })
+    },
+    fixtures: async (parent: Team, _: unknown, { prisma }: Context): Promise<Fixture[]> => {
+      return prisma.fixture.findMany({
+        where: { teamId: parent.id, startsAt: { gte: upcomingFrom() }, skipped: false },
+        orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+      })
+    },
+    fixtureSchedule: async (
+      parent: Team,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<FixtureSchedule | null> => {
+      return prisma.fixtureSchedule.findUnique({ where: { teamId: parent.id } })
+    },
+    matches: async (parent: Team, _: unknown, { prisma }: Context): Promise<Match[]> => {
+      return prisma.match.findMany({
+        where: { teamId: parent.id },
+        orderBy: [{ playedAt: 'desc' }, { id: 'desc' }],
+      })
+    },
+    user: async (parent: Team, _: unknown, { prisma }: Context): Promise<User | null> => {
       return prisma.user.findUnique({
         where: { id: parent.userId },
       })
@@ -337,228 +1736,1752 @@ export const resolvers = {
         where: { playerId: parent.id },
       })
     },
+    attributes: async (
+      parent: Player,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<PlayerAttributeValue[]> => {
+      const values = await prisma.playerAttributeValue.findMany({
+        where: { playerId: parent.id },
+        include: { attribute: true },
+        orderBy: { attributeId: 'asc' },
+      })
+      return values.map((v) => ({
+        attributeId: v.attributeId,
+        name: v.attribute.name,
+        weight: v.attribute.weight,
+        value: v.value,
+      }))
+    },
+    matches: async (parent: Player, _: unknown, { prisma }: Context): Promise<Match[]> => {
+      return prisma.match.findMany({
+        where: { players: { some: { playerId: parent.id } } },
+        orderBy: [{ playedAt: 'desc' }, { id: 'desc' }],
+      })
+    },
+    matchEvents: async (parent: Player, _: unknown, { prisma }: Context): Promise<MatchEvent[]> => {
+      return prisma.matchEvent.findMany({
+        where: { playerId: parent.id },
+        orderBy: [{ match: { playedAt: 'desc' } }, { minute: 'asc' }, { id: 'asc' }],
+      })
+    },
+    ratingHistory: async (
+      parent: Player,
+      { limit }: { limit?: number | null },
+      { prisma }: Context,
+    ): Promise<PlayerRatingChange[]> => {
+      if (limit != null && limit < 1) {
+        throw new Error('limit must be at least 1')
+      }
+      // Newest first to apply the limit, then back into date order for charting
+      const changes = await prisma.playerRatingChange.findMany({
+        where: { playerId: parent.id },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit ?? undefined,
+      })
+      return changes.reverse()
+    },
+    stats: async (
+      parent: Player,
+      { from, to }: { from?: string | null; to?: string | null },
+      context: Context,
+    ): Promise<PlayerStatsSummary> => {
+      const range = playedAtRange(from, to)
+      const matches = await context.prisma.match.findMany({
+        where: {
+          players: { some: { playerId: parent.id } },
+          playedAt: range,
+        },
+        include: {
+          players: { include: { player: { select: { rating: true } } } },
+          events: { select: { playerId: true, type: true } },
+        },
+      })
+
+      return calculatePlayerStats(
+        parent.id,
+        matches.map((match) => ({
+          team1Score: match.team1Score,
+          team2Score: match.team2Score,
+          players: match.players.map((p) => ({
+            playerId: p.playerId,
+            side: p.side,
+            rating: p.player.rating,
+          })),
+          events: match.events,
+          motmPlayerId: match.motmPlayerId,
+        })),
+      )
+    },
+    peerRating: async (parent: Player, _: unknown, context: Context): Promise<PeerRatingSummary> =>
+      peerRatingSummary(context, parent.id),
+    motmAwards: async (parent: Player, _: unknown, { prisma }: Context): Promise<number> => {
+      return prisma.match.count({ where: { motmPlayerId: parent.id } })
+    },
     user: async (parent: Player, _: unknown, { prisma }: Context): Promise<User | null> => {
       return prisma.user.findUnique({
         where: { id: parent.userId },
       })
-    },
-  },
+    },
+  },
+
+  Match: {
+    team: async (parent: Match, _: unknown, { prisma }: Context): Promise<Team | null> => {
+      return prisma.team.findUnique({
+        where: { id: parent.teamId },
+      })
+    },
+    players: async (
+      parent: Match,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<MatchPlayerWithPlayer[]> => {
+      return prisma.matchPlayer.findMany({
+        where: { matchId: parent.id },
+        include: { player: true },
+        orderBy: [{ side: 'asc' }, { isSubstitute: 'asc' }, { playerId: 'asc' }],
+      })
+    },
+    events: async (parent: Match, _: unknown, { prisma }: Context): Promise<MatchEvent[]> => {
+      // Events without a minute go after the timed ones, in the order they were entered
+      return prisma.matchEvent.findMany({
+        where: { matchId: parent.id },
+        orderBy: [{ minute: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+      })
+    },
+    season: async (parent: Match, _: unknown, { prisma }: Context): Promise<Season | null> => {
+      if (parent.seasonId === null) return null
+      return prisma.season.findUnique({
+        where: { id: parent.seasonId },
+      })
+    },
+    peerRaters: async (parent: Match, _: unknown, { prisma }: Context): Promise<Player[]> => {
+      // Only who has voted; the scores themselves are never returned
+      return prisma.player.findMany({
+        where: { peerRatingsGiven: { some: { matchId: parent.id } } },
+        orderBy: { name: 'asc' },
+      })
+    },
+    motm: async (parent: Match, _: unknown, { prisma }: Context): Promise<MotmPollSummary> => {
+      // The hourly job stores the winner; until then a closed poll has none
+      const match = await prisma.match.findUniqueOrThrow({
+        where: { id: parent.id },
+        include: { team: { select: { motmVotingHours: true } }, motmVotes: true },
+      })
+      return {
+        // A settled poll stays closed even if the team's window changes later
+        closesAt: match.motmDecidedAt ?? motmClosesAt(match.playedAt, match.team.motmVotingHours),
+        isOpen:
+          match.motmDecidedAt === null && isMotmOpen(match.playedAt, match.team.motmVotingHours),
+        voterIds: match.motmVotes.map((v) => v.voterId),
+        tally: tallyMotmVotes(match.motmVotes),
+        winnerId: match.motmPlayerId,
+      }
+    },
+    playedAt: (parent: Match): string => parent.playedAt.toISOString(),
+    ratedAt: (parent: Match): string | null => parent.ratedAt?.toISOString() ?? null,
+    // Stored as BigInt since seeds go past the Int range
+    pairingSeed: (parent: Match): number | null =>
+      parent.pairingSeed === null ? null : Number(parent.pairingSeed),
+  },
+
+  Season: {
+    team: async (parent: Season, _: unknown, { prisma }: Context): Promise<Team | null> => {
+      return prisma.team.findUnique({
+        where: { id: parent.teamId },
+      })
+    },
+    matchCount: async (parent: Season, _: unknown, { prisma }: Context): Promise<number> => {
+      return prisma.match.count({
+        where: { seasonId: parent.id },
+      })
+    },
+    // Stored as midnight UTC; only the day matters
+    startDate: (parent: Season): string => parent.startDate.toISOString().slice(0, 10),
+    endDate: (parent: Season): string => parent.endDate.toISOString().slice(0, 10),
+  },
+
+  Fixture: {
+    team: async (parent: Fixture, _: unknown, { prisma }: Context): Promise<Team | null> => {
+      return prisma.team.findUnique({
+        where: { id: parent.teamId },
+      })
+    },
+    responses: async (
+      parent: Fixture,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<FixtureResponse[]> => {
+      return prisma.fixtureResponse.findMany({
+        where: { fixtureId: parent.id },
+        orderBy: [{ updatedAt: 'asc' }, { playerId: 'asc' }],
+      })
+    },
+    waitlist: async (
+      parent: Fixture,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<FixtureResponse[]> => {
+      return waitlist(
+        await prisma.fixtureResponse.findMany({
+          where: { fixtureId: parent.id, status: 'WAITLIST' },
+        }),
+      )
+    },
+    changes: async (
+      parent: Fixture,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<FixtureResponseChange[]> => {
+      return prisma.fixtureResponseChange.findMany({
+        where: { fixtureId: parent.id },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      })
+    },
+    counts: async (parent: Fixture, _: unknown, { prisma }: Context): Promise<RsvpCounts> => {
+      const extendedPrisma = prisma as PrismaClientWithTeamPlayer
+      const [squad, responses] = await Promise.all([
+        extendedPrisma.teamPlayer.findMany({ where: { teamId: parent.teamId } }),
+        prisma.fixtureResponse.findMany({ where: { fixtureId: parent.id } }),
+      ])
+      return countResponses(
+        squad.map((tp) => tp.playerId),
+        responses,
+      )
+    },
+    startsAt: (parent: Fixture): string => parent.startsAt.toISOString(),
+    shares: async (
+      parent: Fixture,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Array<{ playerId: number; amount: number }>> => {
+      // Once charged, the saved shares are what the players owe
+      if (parent.chargedAt) {
+        return prisma.fixtureCharge.findMany({
+          where: { fixtureId: parent.id },
+          select: { playerId: true, amount: true },
+          orderBy: { playerId: 'asc' },
+        })
+      }
+      if (!parent.cost) return []
+      const confirmed = await prisma.fixtureResponse.findMany({
+        where: { fixtureId: parent.id, status: 'IN' },
+      })
+      return splitCost(
+        parent.cost,
+        confirmed.map((r) => r.playerId),
+      )
+    },
+    scheduledFor: (parent: Fixture): string | null => parent.scheduledFor?.toISOString() ?? null,
+    chargedAt: (parent: Fixture): string | null => parent.chargedAt?.toISOString() ?? null,
+    createdAt: (parent: Fixture): string => parent.createdAt.toISOString(),
+    updatedAt: (parent: Fixture): string => parent.updatedAt.toISOString(),
+  },
+
+  FixtureSchedule: {
+    format: (parent: FixtureSchedule): string => formatLabel(parent.playersPerSide),
+    startDate: (parent: FixtureSchedule): string => parent.startDate.toISOString().slice(0, 10),
+    createdAt: (parent: FixtureSchedule): string => parent.createdAt.toISOString(),
+    updatedAt: (parent: FixtureSchedule): string => parent.updatedAt.toISOString(),
+  },
+
+  FixtureResponse: {
+    player: async (
+      parent: FixtureResponse,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+    updatedAt: (parent: FixtureResponse): string => parent.updatedAt.toISOString(),
+  },
+
+  FixtureResponseChange: {
+    player: async (
+      parent: FixtureResponseChange,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+    createdAt: (parent: FixtureResponseChange): string => parent.createdAt.toISOString(),
+  },
+
+  FeeShare: {
+    player: async (
+      parent: { playerId: number },
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  Payment: {
+    player: async (parent: Payment, _: unknown, { prisma }: Context): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+    paidAt: (parent: Payment): string => parent.paidAt.toISOString(),
+    createdAt: (parent: Payment): string => parent.createdAt.toISOString(),
+  },
+
+  LedgerEntry: {
+    player: async (
+      parent: LedgerEntry,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+    fixture: async (
+      parent: LedgerEntry,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Fixture | null> => {
+      if (parent.fixtureId === null) return null
+      return prisma.fixture.findUnique({ where: { id: parent.fixtureId } })
+    },
+    date: (parent: LedgerEntry): string => parent.date.toISOString(),
+  },
+
+  PlayerBalance: {
+    player: async (
+      parent: PlayerBalance,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  LeagueTableRow: {
+    player: async (
+      parent: LeagueTableRow,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  Tournament: {
+    teams: async (
+      parent: Tournament,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<TournamentTeam[]> => {
+      return prisma.tournamentTeam.findMany({
+        where: { tournamentId: parent.id },
+        orderBy: { seed: 'asc' },
+      })
+    },
+    fixtures: async (
+      parent: Tournament,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<TournamentFixture[]> => {
+      return prisma.tournamentFixture.findMany({
+        where: { tournamentId: parent.id },
+        orderBy: [{ slot: 'asc' }, { pitch: 'asc' }],
+      })
+    },
+    standings: async (
+      parent: Tournament,
+      _: unknown,
+      context: Context,
+    ): Promise<TournamentStanding[]> => {
+      if (parent.format !== 'ROUND_ROBIN') return []
+      const { teams, fixtures } = await tournamentResults(context, parent.id)
+      return calculateTournamentStandings(
+        teams.map((t) => t.id),
+        fixtures,
+      )
+    },
+    winner: async (
+      parent: Tournament,
+      _: unknown,
+      context: Context,
+    ): Promise<TournamentTeam | null> => {
+      const { teams, fixtures } = await tournamentResults(context, parent.id)
+      let winnerId: number | null = null
+      if (parent.format === 'ROUND_ROBIN') {
+        if (fixtures.every((f) => f.homeScore !== null)) {
+          const standings = calculateTournamentStandings(
+            teams.map((t) => t.id),
+            fixtures,
+          )
+          winnerId = standings[0]?.teamId ?? null
+        }
+      } else if (fixtures.length > 0) {
+        // The final is the only fixture in the last round
+        winnerId = fixtureWinner(fixtures[fixtures.length - 1]!)
+      }
+      return teams.find((t) => t.id === winnerId) ?? null
+    },
+    startsAt: (parent: Tournament): string => parent.startsAt.toISOString(),
+    createdAt: (parent: Tournament): string => parent.createdAt.toISOString(),
+  },
+
+  TournamentTeam: {
+    players: async (parent: TournamentTeam, _: unknown, { prisma }: Context): Promise<Player[]> => {
+      const entries = await prisma.tournamentTeamPlayer.findMany({
+        where: { teamId: parent.id },
+        include: { player: true },
+      })
+      return entries.map((entry) => entry.player)
+    },
+  },
+
+  PlayerRatingChange: {
+    change: (parent: PlayerRatingChange): number => parent.newRating - parent.oldRating,
+    createdAt: (parent: PlayerRatingChange): string => parent.createdAt.toISOString(),
+    changedBy: async (
+      parent: PlayerRatingChange,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<User | null> => {
+      if (parent.changedById === null) return null
+      return prisma.user.findUnique({
+        where: { id: parent.changedById },
+      })
+    },
+  },
+
+  TeammateCount: {
+    player: async (
+      parent: TeammateCount,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  Ballot: {
+    playedAt: (parent: BallotSummary): string => parent.playedAt.toISOString(),
+    motmClosesAt: (parent: BallotSummary): string => parent.motmClosesAt.toISOString(),
+  },
+
+  MotmPoll: {
+    closesAt: (parent: MotmPollSummary): string => parent.closesAt.toISOString(),
+    voters: async (parent: MotmPollSummary, _: unknown, { prisma }: Context): Promise<Player[]> => {
+      return prisma.player.findMany({
+        where: { id: { in: parent.voterIds } },
+        orderBy: { name: 'asc' },
+      })
+    },
+    winner: async (
+      parent: MotmPollSummary,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      if (parent.winnerId === null) return null
+      return prisma.player.findUnique({
+        where: { id: parent.winnerId },
+      })
+    },
+  },
+
+  MotmCount: {
+    player: async (parent: MotmCount, _: unknown, { prisma }: Context): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  RatingChange: {
+    player: async (
+      parent: RatingChange,
+      _: unknown,
+      { prisma }: Context,
+    ): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  MatchEvent: {
+    match: async (parent: MatchEvent, _: unknown, { prisma }: Context): Promise<Match | null> => {
+      return prisma.match.findUnique({
+        where: { id: parent.matchId },
+      })
+    },
+    player: async (parent: MatchEvent, _: unknown, { prisma }: Context): Promise<Player | null> => {
+      return prisma.player.findUnique({
+        where: { id: parent.playerId },
+      })
+    },
+  },
+
+  User: {
+    // User fields are automatically resolved, no need to define resolvers
+  },
+
+  Mutation: {
+    // Authentication mutations
+    login: authResolvers.Mutation.login,
+    register: authResolvers.Mutation.register,
+    changePassword: authResolvers.Mutation.changePassword,
+
+    // Team mutations (authentication required)
+    createTeam: async (_: unknown, { name }: { name: string }, context: Context): Promise<Team> => {
+      const user = requireAuth(context) // Authentication required
+
+      return context.prisma.team.create({
+        data: {
+          name,
+          userId: user.id, // Always assign to authenticated user
+        },
+      })
+    },
+
+    updateTeam: async (
+      _: unknown,
+      {
+        id,
+        name,
+        autoRating,
+        motmVotingHours,
+      }: {
+        id: number
+        name: string
+        autoRating?: boolean | null
+        motmVotingHours?: number | null
+      },
+      context: Context,
+    ): Promise<Team> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const team = await context.prisma.team.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only update your own teams')
+      }
+      if (
+        motmVotingHours != null &&
+        (!Number.isInteger(motmVotingHours) ||
+          motmVotingHours < MIN_MOTM_VOTING_HOURS ||
+          motmVotingHours > MAX_MOTM_VOTING_HOURS)
+      ) {
+        throw new Error(
+          `Voting must stay open for ${MIN_MOTM_VOTING_HOURS} to ${MAX_MOTM_VOTING_HOURS} hours`,
+        )
+      }
+
+      return context.prisma.team.update({
+        where: { id },
+        data: {
+          name,
+          ...(autoRating != null ? { autoRating } : {}),
+          ...(motmVotingHours != null ? { motmVotingHours } : {}),
+        },
+      })
+    },
+
+    deleteTeam: async (_: unknown, { id }: { id: number }, context: Context): Promise<boolean> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const team = await context.prisma.team.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only delete your own teams')
+      }
+
+      await context.prisma.team.delete({ where: { id } })
+      return true
+    },
+
+    createPlayer: async (
+      _: unknown,
+      {
+        name,
+        rating,
+        position,
+        secondaryPosition,
+        attributes,
+      }: {
+        name: string
+        rating?: number | null
+        position?: Position | null
+        secondaryPosition?: Position | null
+        attributes?: PlayerAttributeInput[] | null
+      },
+      context: Context,
+    ): Promise<Player> => {
+      const user = requireAuth(context) // Authentication required
+
+      if (attributes?.length) {
+        await validateAttributeScores(context, user.id, attributes)
+      } else if (rating == null) {
+        throw new Error('A rating is required when no attribute scores are given')
+      }
+
+      const player = await context.prisma.player.create({
+        data: {
+          name,
+          rating: rating ?? MIN_RATING, // Replaced by the derived overall below
+          position: position ?? undefined, // Fall back to the schema default (MID)
+          secondaryPosition: secondaryPosition ?? null,
+          userId: user.id, // Always assign to authenticated user
+          attributeValues: attributes?.length ? { create: attributes } : undefined,
+        },
+      })
+
+      if (!attributes?.length) return player
+
+      await syncOverallRatings(context.prisma, [player.id])
+      return context.prisma.player.findUniqueOrThrow({ where: { id: player.id } })
+    },
+
+    updatePlayer: async (
+      _: unknown,
+      {
+        id,
+        name,
+        rating,
+        position,
+        secondaryPosition,
+        attributes,
+        acceptPeerRating,
+      }: {
+        id: number
+        name?: string
+        rating?: number
+        position?: Position | null
+        secondaryPosition?: Position | null
+        attributes?: PlayerAttributeInput[] | null
+        acceptPeerRating?: boolean | null
+      },
+      context: Context,
+    ): Promise<Player> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const player = await context.prisma.player.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only update your own players')
+      }
+
+      let peerRating: number | undefined
+      if (acceptPeerRating) {
+        if (rating !== undefined || attributes) {
+          throw new Error("Accepting the peer rating can't be combined with a rating or attributes")
+        }
+        const values = await context.prisma.playerAttributeValue.findMany({
+          where: { playerId: id },
+          include: { attribute: true },
+        })
+        if (
+          calculateOverallRating(
+            values.map((v) => ({ weight: v.attribute.weight, value: v.value })),
+          ) !== null
+        ) {
+          throw new Error("This player's rating comes from their attribute scores")
+        }
+        const summary = await peerRatingSummary(context, id)
+        if (summary.suggestedRating === null) {
+          throw new Error(`A peer rating needs at least ${summary.minimumVotes} votes`)
+        }
+        peerRating = summary.suggestedRating
+      }
+
+      // Scores must use the player owner's attributes (matters when an admin edits)
+      if (attributes) await validateAttributeScores(context, player.userId, attributes)
+
+      const updateData: {
+        name?: string
+        rating?: number
+        position?: Position
+        secondaryPosition?: Position | null
+      } = {}
+      if (name !== undefined) updateData.name = name
+      if (rating !== undefined) updateData.rating = rating
+      if (peerRating !== undefined) updateData.rating = peerRating
+      if (position) updateData.position = position
+      if (secondaryPosition !== undefined) updateData.secondaryPosition = secondaryPosition
+
+      // The old rating is read, replaced and logged in one transaction, so two saves at
+      // once can't log a change from a rating the other had already overwritten
+      return serializableTransaction(context, async (tx) => {
+        const { rating: oldRating } = await tx.player.findUniqueOrThrow({
+          where: { id },
+          select: { rating: true },
+        })
+
+        if (attributes) {
+          await tx.playerAttributeValue.deleteMany({ where: { playerId: id } })
+          await tx.playerAttributeValue.createMany({
+            data: attributes.map((a) => ({ playerId: id, ...a })),
+          })
+        }
+        await tx.player.update({
+          where: { id },
+          data: updateData,
+        })
+
+        // A derived overall wins over any rating passed in
+        const derived = await syncOverallRatings(tx, [id])
+        const updated = await tx.player.findUniqueOrThrow({ where: { id } })
+
+        // One history entry per save, however the new rating came about
+        await recordRatingChange(tx, id, oldRating, updated.rating, {
+          source: derived.has(id)
+            ? 'ATTRIBUTES'
+            : peerRating !== undefined
+              ? 'PEER_RATINGS'
+              : 'MANUAL',
+          changedById: user.id,
+        })
+        return updated
+      })
+    },
+
+    deletePlayer: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const player = await context.prisma.player.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only delete your own players')
+      }
+
+      await context.prisma.player.delete({ where: { id } })
+      return true
+    },
+
+    createRatingAttribute: async (
+      _: unknown,
+      { name, weight }: { name: string; weight?: number | null },
+      context: Context,
+    ): Promise<RatingAttribute> => {
+      const user = requireAuth(context)
+
+      if (!name.trim()) {
+        throw new Error('Rating attribute name is required')
+      }
+      if (weight != null && weight < 0) {
+        throw new Error('Rating attribute weight cannot be negative')
+      }
+
+      return context.prisma.ratingAttribute.create({
+        data: {
+          name: name.trim(),
+          weight: weight ?? undefined, // Fall back to the schema default (1)
+          userId: user.id,
+        },
+      })
+    },
+
+    updateRatingAttribute: async (
+      _: unknown,
+      { id, name, weight }: { id: number; name?: string | null; weight?: number | null },
+      context: Context,
+    ): Promise<RatingAttribute> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const attribute = await context.prisma.ratingAttribute.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!attribute || (attribute.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only update your own rating attributes')
+      }
+      if (name != null && !name.trim()) {
+        throw new Error('Rating attribute name is required')
+      }
+      if (weight != null && weight < 0) {
+        throw new Error('Rating attribute weight cannot be negative')
+      }
+
+      // Reweighting and the ratings it moves are saved together, as in updatePlayer
+      return serializableTransaction(context, async (tx) => {
+        const updated = await tx.ratingAttribute.update({
+          where: { id },
+          data: {
+            name: name?.trim() ?? undefined,
+            weight: weight ?? undefined,
+          },
+        })
+
+        if (weight != null) {
+          const scored = await tx.playerAttributeValue.findMany({
+            where: { attributeId: id },
+            select: { playerId: true },
+          })
+          await syncOverallRatings(
+            tx,
+            scored.map((v) => v.playerId),
+            user.id,
+          )
+        }
+
+        return updated
+      })
+    },
+
+    deleteRatingAttribute: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
+      const user = requireAuth(context)
+
+      // Verify ownership
+      const attribute = await context.prisma.ratingAttribute.findUnique({
+        where: { id },
+        select: { userId: true },
+      })
+
+      if (!attribute || (attribute.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only delete your own rating attributes')
+      }
+
+      await serializableTransaction(context, async (tx) => {
+        const scored = await tx.playerAttributeValue.findMany({
+          where: { attributeId: id },
+          select: { playerId: true },
+        })
+        await tx.ratingAttribute.delete({ where: { id } })
+        await syncOverallRatings(
+          tx,
+          scored.map((v) => v.playerId),
+          user.id,
+        )
+      })
+      return true
+    },
+
+    addPlayerToTeam: async (
+      _: unknown,
+      { playerId, teamId }: { playerId: number; teamId: number },
+      context: Context,
+    ): Promise<Team> => {
+      const user = requireAuth(context)
+
+      // Verify user owns both the team and player
+      const [team, player] = await Promise.all([
+        context.prisma.team.findUnique({
+          where: { id: teamId },
+          select: { userId: true },
+        }),
+        context.prisma.player.findUnique({
+          where: { id: playerId },
+          select: { userId: true },
+        }),
+      ])
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
+      }
+
+      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own players')
+      }
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      await extendedPrisma.teamPlayer.upsert({
+        where: {
+          teamId_playerId: {
+            teamId,
+            playerId,
+          },
+        },
+        update: {},
+        create: {
+          teamId,
+          playerId,
+        },
+      })
+
+      const updatedTeam = await context.prisma.team.findUnique({
+        where: { id: teamId },
+      })
+
+      if (!updatedTeam) {
+        throw new Error(`Team with id ${teamId} not found`)
+      }
+
+      return updatedTeam
+    },
+
+    removePlayerFromTeam: async (
+      _: unknown,
+      { playerId, teamId }: { playerId: number; teamId: number },
+      context: Context,
+    ): Promise<Team> => {
+      const user = requireAuth(context)
+
+      // Verify user owns the team
+      const team = await context.prisma.team.findUnique({
+        where: { id: teamId },
+        select: { userId: true },
+      })
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
+      }
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      await extendedPrisma.teamPlayer.delete({
+        where: {
+          teamId_playerId: {
+            teamId,
+            playerId,
+          },
+        },
+      })
+
+      const updatedTeam = await context.prisma.team.findUnique({
+        where: { id: teamId },
+      })
+
+      if (!updatedTeam) {
+        throw new Error(`Team with id ${teamId} not found`)
+      }
+
+      return updatedTeam
+    },
+
+    setPairingConstraints: async (
+      _: unknown,
+      {
+        teamId,
+        constraints,
+      }: {
+        teamId: number
+        constraints: Array<{
+          type: PairingConstraintType
+          playerId: number
+          otherPlayerId?: number | null
+          side?: number | null
+        }>
+      },
+      context: Context,
+    ): Promise<PairingConstraint[]> => {
+      const user = requireAuth(context)
+
+      // Verify user owns the team
+      const team = await context.prisma.team.findUnique({
+        where: { id: teamId },
+        select: { userId: true },
+      })
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
+      }
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      const teamPlayers = await extendedPrisma.teamPlayer.findMany({
+        where: { teamId },
+        include: { player: true },
+      })
+      const squad = teamPlayers.map((tp) => tp.player).filter((p): p is Player => !!p)
+      const squadIds = new Set(squad.map((p) => p.id))
+
+      for (const constraint of constraints) {
+        const ids =
+          constraint.type === 'LOCKED'
+            ? [constraint.playerId]
+            : [constraint.playerId, constraint.otherPlayerId]
+
+        if (!ids.every((id) => id != null && squadIds.has(id))) {
+          throw new Error('Pairing constraints can only mention players in this team')
+        }
+        if (constraint.type === 'LOCKED' && constraint.side !== 1 && constraint.side !== 2) {
+          throw new Error('Locked players must be locked to side 1 or 2')
+        }
+        if (constraint.type !== 'LOCKED' && constraint.otherPlayerId === constraint.playerId) {
+          throw new Error('A player cannot be paired with themselves')
+        }
+      }
+
+      // Reject contradictory sets up front (throws a message naming the players involved)
+      resolvePairingConstraints(squad, constraints)
+
+      await context.prisma.$transaction([
+        context.prisma.pairingConstraint.deleteMany({ where: { teamId } }),
+        context.prisma.pairingConstraint.createMany({
+          data: constraints.map((constraint) => ({
+            teamId,
+            type: constraint.type,
+            playerId: constraint.playerId,
+            otherPlayerId: constraint.type === 'LOCKED' ? null : constraint.otherPlayerId,
+            side: constraint.type === 'LOCKED' ? constraint.side : null,
+          })),
+        }),
+      ])
+
+      return context.prisma.pairingConstraint.findMany({
+        where: { teamId },
+        orderBy: { id: 'asc' },
+      })
+    },
+
+    // Match mutations
+    createMatch: async (
+      _: unknown,
+      { input }: { input: CreateMatchInput },
+      context: Context,
+    ): Promise<Match> => {
+      const user = requireAuth(context)
+      const { teamId, players } = input
+
+      // Verify user owns the team
+      const team = await context.prisma.team.findUnique({
+        where: { id: teamId },
+        select: { userId: true },
+      })
+
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
+      }
+
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      const teamPlayers = await extendedPrisma.teamPlayer.findMany({ where: { teamId } })
+      validateLineup(players, new Set(teamPlayers.map((tp) => tp.playerId)))
+
+      const playedAt = input.playedAt ? new Date(input.playedAt) : new Date()
+      if (Number.isNaN(playedAt.getTime())) {
+        throw new Error('playedAt must be a valid date')
+      }
+      if (input.pairingSeed != null && !isValidSeed(input.pairingSeed)) {
+        throw new Error(`Seed must be a whole number between 0 and ${MAX_SEED}`)
+      }
+      if (input.seasonId != null) {
+        const season = await context.prisma.season.findUnique({
+          where: { id: input.seasonId },
+          select: { teamId: true, name: true, startDate: true, endDate: true },
+        })
+        if (!season || season.teamId !== teamId) {
+          throw new Error("Matches can only be tagged to one of the team's seasons")
+        }
+        checkPlayedInSeason(playedAt, season)
+      }
+
+      return context.prisma.match.create({
+        data: {
+          teamId,
+          playedAt,
+          seasonId: input.seasonId ?? null,
+          pairingMode: input.pairingMode ?? null,
+          pairingSeed: input.pairingSeed != null ? BigInt(input.pairingSeed) : null,
+          players: {
+            create: players.map((p) => ({
+              playerId: p.playerId,
+              side: p.side,
+              isSubstitute: p.isSubstitute ?? false,
+            })),
+          },
+        },
+      })
+    },
+
+    recordMatchResult: async (
+      _: unknown,
+      {
+        matchId,
+        team1Score,
+        team2Score,
+      }: { matchId: number; team1Score: number; team2Score: number },
+      context: Context,
+    ): Promise<Match> => {
+      const user = requireAuth(context)
+      await findManagedMatch(context, user, matchId)
+      validateScores(team1Score, team2Score)
+
+      // Ratings are read, worked out and written in one transaction, so two results
+      // saved at once can't overwrite each other's changes
+      return serializableTransaction(context, async (tx) => {
+        const match = await tx.match.findUniqueOrThrow({
+          where: { id: matchId },
+          include: { team: { select: { autoRating: true } }, players: true },
+        })
+
+        // A side that conceded can't keep its clean sheets
+        const concededSides = [team2Score > 0 ? 1 : null, team1Score > 0 ? 2 : null]
+        const staleKeeperIds = match.players
+          .filter((p) => concededSides.includes(p.side))
+          .map((p) => p.playerId)
+        await tx.matchEvent.deleteMany({
+          where: { matchId, type: 'CLEAN_SHEET', playerId: { in: staleKeeperIds } },
+        })
+
+        // The first result moves ratings when the team has autoRating on; once it has,
+        // a correction replaces those changes whatever the setting is now
+        const applyRatings = match.ratedAt !== null || match.team.autoRating
+        const changes = applyRatings
+          ? (await ratingChangesFor(tx, matchId, team1Score, team2Score)).filter(
+              (c) => c.change !== 0,
+            )
+          : []
+        for (const c of changes) {
+          await tx.player.update({ where: { id: c.playerId }, data: { rating: c.newRating } })
+          await tx.playerRatingChange.create({
+            data: {
+              playerId: c.playerId,
+              oldRating: c.oldRating,
+              newRating: c.newRating,
+              source: 'MATCH_RESULT',
+              changedById: user.id,
+              matchId,
+            },
+          })
+        }
+
+        return tx.match.update({
+          where: { id: matchId },
+          data: {
+            team1Score,
+            team2Score,
+            ...(applyRatings && match.ratedAt === null ? { ratedAt: new Date() } : {}),
+          },
+        })
+      })
+    },
+
+    addMatchEvent: async (
+      _: unknown,
+      { input }: { input: AddMatchEventInput },
+      context: Context,
+    ): Promise<MatchEvent> => {
+      const user = requireAuth(context)
+      const { matchId, playerId, type, minute } = input
+      const match = await findManagedMatch(context, user, matchId)
+
+      const entry = match.players.find((p) => p.playerId === playerId)
+      if (!entry) {
+        throw new Error('Events can only be added for players in the lineup')
+      }
+      if (minute != null && (!Number.isInteger(minute) || minute < 0 || minute > MAX_MINUTE)) {
+        throw new Error(`Minute must be a whole number between 0 and ${MAX_MINUTE}`)
+      }
+
+      if (type === 'CLEAN_SHEET') {
+        const conceded = entry.side === 1 ? match.team2Score : match.team1Score
+        if (conceded === null) {
+          throw new Error('Record the result before adding clean sheets')
+        }
+        if (conceded > 0) {
+          throw new Error("A clean sheet needs the player's side to concede nothing")
+        }
+        const existing = await context.prisma.matchEvent.findFirst({
+          where: { matchId, playerId, type: 'CLEAN_SHEET' },
+        })
+        if (existing) {
+          throw new Error('This player already has a clean sheet for this match')
+        }
+      }
+
+      return context.prisma.matchEvent.create({
+        data: { matchId, playerId, type, minute: minute ?? null },
+      })
+    },
+
+    removeMatchEvent: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
+      const user = requireAuth(context)
+
+      const event = await context.prisma.matchEvent.findUnique({
+        where: { id },
+        select: { matchId: true },
+      })
+      if (!event) {
+        throw new Error(`Match event with id ${id} not found`)
+      }
+      await findManagedMatch(context, user, event.matchId)
 
-  User: {
-    // User fields are automatically resolved, no need to define resolvers
-  },
+      await context.prisma.matchEvent.delete({ where: { id } })
+      return true
+    },
 
-  Mutation: {
-    // Authentication mutations
-    login: authResolvers.Mutation.login,
-    register: authResolvers.Mutation.register,
-    changePassword: authResolvers.Mutation.changePassword,
+    submitPeerRatings: async (
+      _: unknown,
+      { token, votes }: { token: string; votes: Array<{ playerId: number; score: number }> },
+      context: Context,
+    ): Promise<BallotSummary> => {
+      // The rater is whoever the link belongs to, not anyone the caller names
+      const entry = await findBallotEntry(context, token)
+      if (!entry) {
+        throw new Error('This voting link is not valid')
+      }
+      const { matchId, playerId: raterId, match } = entry
+      if (match.playedAt > new Date()) {
+        throw new Error("A match can't be rated before it's played")
+      }
+      validatePeerVotes(
+        raterId,
+        match.players.map((p) => p.playerId),
+        votes,
+      )
+
+      await context.prisma.$transaction([
+        context.prisma.peerRating.deleteMany({ where: { matchId, raterId } }),
+        context.prisma.peerRating.createMany({
+          data: votes.map((vote) => ({ matchId, raterId, ...vote })),
+        }),
+      ])
+      return toBallot(context, entry)
+    },
 
-    // Team mutations (authentication required)
-    createTeam: async (_: unknown, { name }: { name: string }, context: Context): Promise<Team> => {
-      const user = requireAuth(context) // Authentication required
+    castMotmVote: async (
+      _: unknown,
+      { token, playerId }: { token: string; playerId: number },
+      context: Context,
+    ): Promise<BallotSummary> => {
+      // The voter is whoever the link belongs to, not anyone the caller names
+      const entry = await findBallotEntry(context, token)
+      if (!entry) {
+        throw new Error('This voting link is not valid')
+      }
+      const { matchId, playerId: voterId, match } = entry
+      if (match.playedAt > new Date()) {
+        throw new Error('Voting opens at kick-off')
+      }
+      if (match.motmDecidedAt !== null || !isMotmOpen(match.playedAt, match.team.motmVotingHours)) {
+        throw new Error('Voting on this match has closed')
+      }
 
-      return context.prisma.team.create({
-        data: {
-          name,
-          userId: user.id, // Always assign to authenticated user
-        },
+      const votes = await context.prisma.motmVote.findMany({
+        where: { matchId },
+        select: { voterId: true },
       })
+      validateMotmVote(
+        voterId,
+        playerId,
+        match.players.map((p) => p.playerId),
+        votes.map((v) => v.voterId),
+      )
+
+      // The (matchId, voterId) key also stops a second vote sent at the same moment
+      await context.prisma.motmVote.create({ data: { matchId, voterId, playerId } })
+      return toBallot(context, entry)
     },
 
-    updateTeam: async (
+    // Season mutations
+    createSeason: async (
       _: unknown,
-      { id, name }: { id: number; name: string },
+      { teamId, input }: { teamId: number; input: SeasonInput },
       context: Context,
-    ): Promise<Team> => {
+    ): Promise<Season> => {
       const user = requireAuth(context)
 
-      // Verify ownership
+      // Verify user owns the team
       const team = await context.prisma.team.findUnique({
-        where: { id },
+        where: { id: teamId },
         select: { userId: true },
       })
 
       if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only update your own teams')
+        throw new Error('You can only manage your own teams')
       }
 
-      return context.prisma.team.update({
+      const data = parseSeasonInput(input)
+      await checkSeasonOverlap(context, teamId, data.startDate, data.endDate)
+
+      return context.prisma.season.create({
+        data: { ...data, teamId },
+      })
+    },
+
+    updateSeason: async (
+      _: unknown,
+      { id, input }: { id: number; input: SeasonInput },
+      context: Context,
+    ): Promise<Season> => {
+      const user = requireAuth(context)
+      const season = await findManagedSeason(context, user, id)
+
+      const data = parseSeasonInput(input)
+      await checkSeasonOverlap(context, season.teamId, data.startDate, data.endDate, id)
+
+      return context.prisma.season.update({
         where: { id },
-        data: { name },
+        data,
       })
     },
 
-    deleteTeam: async (_: unknown, { id }: { id: number }, context: Context): Promise<boolean> => {
+    deleteSeason: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
       const user = requireAuth(context)
+      await findManagedSeason(context, user, id)
 
-      // Verify ownership
+      // Matches stay, untagged (onDelete: SetNull)
+      await context.prisma.season.delete({ where: { id } })
+      return true
+    },
+
+    // Fixture mutations
+    createFixture: async (
+      _: unknown,
+      { teamId, input }: { teamId: number; input: FixtureInput },
+      context: Context,
+    ): Promise<Fixture> => {
+      const user = requireAuth(context)
+
+      // Verify user owns the team
       const team = await context.prisma.team.findUnique({
-        where: { id },
+        where: { id: teamId },
         select: { userId: true },
       })
 
       if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only delete your own teams')
+        throw new Error('You can only manage your own teams')
       }
 
-      await context.prisma.team.delete({ where: { id } })
-      return true
+      return context.prisma.fixture.create({
+        data: { ...parseFixtureInput(input), teamId },
+      })
     },
 
-    createPlayer: async (
+    updateFixture: async (
       _: unknown,
-      { name, rating }: { name: string; rating: number },
+      { id, input }: { id: number; input: FixtureInput },
       context: Context,
-    ): Promise<Player> => {
-      const user = requireAuth(context) // Authentication required
+    ): Promise<Fixture> => {
+      const user = requireAuth(context)
+      await findManagedFixture(context, user, id)
 
-      return context.prisma.player.create({
-        data: {
-          name,
-          rating,
-          userId: user.id, // Always assign to authenticated user
-        },
+      // More places (or no limit) lets the front of the waitlist in. The answers are read
+      // and the promotions written in the same transaction as the new capacity
+      const fixture = await serializableTransaction(context, async (tx) => {
+        const updated = await tx.fixture.update({
+          where: { id },
+          data: parseFixtureInput(input),
+        })
+        const responses = await tx.fixtureResponse.findMany({ where: { fixtureId: id } })
+        await applyRsvpChanges(tx, id, waitlistPromotions(responses, updated.capacity))
+        return updated
       })
+      if (fixture.scheduledFor) {
+        await createScheduledFixtures({ prisma: context.prisma, teamId: fixture.teamId })
+      }
+      return fixture
     },
 
-    updatePlayer: async (
+    deleteFixture: async (
       _: unknown,
-      { id, name, rating }: { id: number; name?: string; rating?: number },
+      { id }: { id: number },
       context: Context,
-    ): Promise<Player> => {
+    ): Promise<boolean> => {
       const user = requireAuth(context)
+      const fixture = await findManagedFixture(context, user, id)
 
-      // Verify ownership
-      const player = await context.prisma.player.findUnique({
+      // Deleting a scheduled fixture would only see it created again
+      if (fixture.scheduledFor) {
+        const schedule = await context.prisma.fixtureSchedule.findUnique({
+          where: { teamId: fixture.teamId },
+        })
+        if (schedule) {
+          await context.prisma.fixture.update({ where: { id }, data: { skipped: true } })
+          await createScheduledFixtures({ prisma: context.prisma, teamId: fixture.teamId })
+          return true
+        }
+      }
+
+      await context.prisma.fixture.delete({ where: { id } })
+      return true
+    },
+
+    skipFixture: async (
+      _: unknown,
+      { id, skipped }: { id: number; skipped?: boolean | null },
+      context: Context,
+    ): Promise<Fixture> => {
+      const user = requireAuth(context)
+      const fixture = await findManagedFixture(context, user, id)
+      if (!fixture.scheduledFor) {
+        throw new Error(
+          'Only fixtures from the team schedule can be skipped; delete this one instead',
+        )
+      }
+
+      const updated = await context.prisma.fixture.update({
         where: { id },
+        data: { skipped: skipped ?? true },
+      })
+      await createScheduledFixtures({ prisma: context.prisma, teamId: fixture.teamId })
+      return updated
+    },
+
+    setFixtureSchedule: async (
+      _: unknown,
+      { teamId, input }: { teamId: number; input: FixtureScheduleInput },
+      context: Context,
+    ): Promise<FixtureSchedule> => {
+      const user = requireAuth(context)
+
+      // Verify user owns the team
+      const team = await context.prisma.team.findUnique({
+        where: { id: teamId },
         select: { userId: true },
       })
 
-      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only update your own players')
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
       }
 
-      const updateData: { name?: string; rating?: number } = {}
-      if (name !== undefined) updateData.name = name
-      if (rating !== undefined) updateData.rating = rating
+      const { startDate, ...data } = parseFixtureScheduleInput(input)
+      const previous = await context.prisma.fixtureSchedule.findUnique({ where: { teamId } })
+      if (previous) {
+        await deleteUntouchedScheduledFixtures(context, previous)
+      }
 
-      return context.prisma.player.update({
-        where: { id },
-        data: updateData,
+      const schedule = await context.prisma.fixtureSchedule.upsert({
+        where: { teamId },
+        create: {
+          ...data,
+          teamId,
+          startDate: startDate ?? new Date(new Date().toISOString().slice(0, 10)),
+        },
+        update: { ...data, ...(startDate ? { startDate } : {}) },
       })
+      await createScheduledFixtures({ prisma: context.prisma, teamId })
+      return schedule
     },
 
-    deletePlayer: async (
+    deleteFixtureSchedule: async (
       _: unknown,
-      { id }: { id: number },
+      { teamId }: { teamId: number },
       context: Context,
     ): Promise<boolean> => {
       const user = requireAuth(context)
 
-      // Verify ownership
-      const player = await context.prisma.player.findUnique({
-        where: { id },
+      // Verify user owns the team
+      const team = await context.prisma.team.findUnique({
+        where: { id: teamId },
         select: { userId: true },
       })
 
-      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only delete your own players')
+      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
+        throw new Error('You can only manage your own teams')
       }
 
-      await context.prisma.player.delete({ where: { id } })
+      const schedule = await context.prisma.fixtureSchedule.findUnique({ where: { teamId } })
+      if (!schedule) return false
+
+      await deleteUntouchedScheduledFixtures(context, schedule)
+      await context.prisma.fixtureSchedule.delete({ where: { teamId } })
       return true
     },
 
-    addPlayerToTeam: async (
+    setRsvp: async (
       _: unknown,
-      { playerId, teamId }: { playerId: number; teamId: number },
+      {
+        fixtureId,
+        playerId,
+        status,
+      }: { fixtureId: number; playerId: number; status?: RsvpStatus | null },
       context: Context,
-    ): Promise<Team> => {
+    ): Promise<Fixture> => {
       const user = requireAuth(context)
+      const fixture = await findManagedFixture(context, user, fixtureId)
+      if (status === 'WAITLIST') {
+        throw new Error("Players join the waitlist by saying they're in when the fixture is full")
+      }
+      if (fixture.skipped) {
+        throw new Error('This fixture is skipped; restore it before answering')
+      }
 
-      // Verify user owns both the team and player
-      const [team, player] = await Promise.all([
-        context.prisma.team.findUnique({
-          where: { id: teamId },
-          select: { userId: true },
-        }),
-        context.prisma.player.findUnique({
-          where: { id: playerId },
-          select: { userId: true },
-        }),
-      ])
-
-      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only manage your own teams')
+      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
+      const inTeam = await extendedPrisma.teamPlayer.count({
+        where: { teamId: fixture.teamId, playerId },
+      })
+      if (!inTeam) {
+        throw new Error("Only players in the fixture's team can answer it")
       }
 
-      if (!player || (player.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only manage your own players')
+      // The answers and capacity are read and the change written in one transaction, so
+      // two players saying they're in at once can't both take the last place. Repeating
+      // an answer changes nothing, so a waitlist place is kept
+      return serializableTransaction(context, async (tx) => {
+        const { capacity } = await tx.fixture.findUniqueOrThrow({
+          where: { id: fixtureId },
+          select: { capacity: true },
+        })
+        const responses = await tx.fixtureResponse.findMany({ where: { fixtureId } })
+        await applyRsvpChanges(
+          tx,
+          fixtureId,
+          planRsvpChange(responses, capacity, playerId, status ?? null),
+        )
+        return tx.fixture.findUniqueOrThrow({ where: { id: fixtureId } })
+      })
+    },
+
+    // Ledger mutations
+    recordPayment: async (
+      _: unknown,
+      { teamId, input }: { teamId: number; input: PaymentInput },
+      context: Context,
+    ): Promise<Payment> => {
+      const user = requireAuth(context)
+      const team = await findManagedTeam(context, user, teamId)
+
+      if (!Number.isInteger(input.amount) || input.amount === 0) {
+        throw new Error('amount must be a whole number of pence/cents other than 0')
+      }
+      const paidAt = input.paidAt ? new Date(input.paidAt) : new Date()
+      if (Number.isNaN(paidAt.getTime())) {
+        throw new Error('paidAt must be a valid date')
+      }
+      const player = await context.prisma.player.findUnique({ where: { id: input.playerId } })
+      if (!player || player.userId !== team.userId) {
+        throw new Error(`Player with id ${input.playerId} not found`)
       }
 
-      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
-      await extendedPrisma.teamPlayer.upsert({
-        where: {
-          teamId_playerId: {
-            teamId,
-            playerId,
-          },
-        },
-        update: {},
-        create: {
+      return context.prisma.payment.create({
+        data: {
           teamId,
-          playerId,
+          playerId: input.playerId,
+          amount: input.amount,
+          note: input.note?.trim() || null,
+          paidAt,
         },
       })
+    },
 
-      const updatedTeam = await context.prisma.team.findUnique({
-        where: { id: teamId },
-      })
+    deletePayment: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
+      const user = requireAuth(context)
 
-      if (!updatedTeam) {
-        throw new Error(`Team with id ${teamId} not found`)
+      const payment = await context.prisma.payment.findUnique({ where: { id } })
+      if (!payment) {
+        throw new Error(`Payment with id ${id} not found`)
       }
+      await findManagedTeam(context, user, payment.teamId)
 
-      return updatedTeam
+      await context.prisma.payment.delete({ where: { id } })
+      return true
     },
 
-    removePlayerFromTeam: async (
+    // Tournament mutations
+    createTournament: async (
       _: unknown,
-      { playerId, teamId }: { playerId: number; teamId: number },
+      { input }: { input: CreateTournamentInput },
       context: Context,
-    ): Promise<Team> => {
+    ): Promise<Tournament> => {
       const user = requireAuth(context)
+      const { format, pitches, slotMinutes, teams } = input
 
-      // Verify user owns the team
-      const team = await context.prisma.team.findUnique({
-        where: { id: teamId },
-        select: { userId: true },
-      })
+      const name = input.name.trim()
+      if (!name) {
+        throw new Error('Tournament name is required')
+      }
+      if (!Number.isInteger(pitches) || pitches < 1 || pitches > MAX_PITCHES) {
+        throw new Error(`Pitches must be a whole number between 1 and ${MAX_PITCHES}`)
+      }
+      if (
+        !Number.isInteger(slotMinutes) ||
+        slotMinutes < MIN_SLOT_MINUTES ||
+        slotMinutes > MAX_SLOT_MINUTES
+      ) {
+        throw new Error(
+          `Slots must be a whole number of minutes between ${MIN_SLOT_MINUTES} and ${MAX_SLOT_MINUTES}`,
+        )
+      }
+      const startsAt = input.startsAt ? new Date(input.startsAt) : new Date()
+      if (Number.isNaN(startsAt.getTime())) {
+        throw new Error('startsAt must be a valid date')
+      }
+      if (teams.some((team) => !team.name.trim() || team.playerIds.length === 0)) {
+        throw new Error('Every team needs a name and at least one player')
+      }
 
-      if (!team || (team.userId !== user.id && user.role !== 'ADMIN')) {
-        throw new Error('You can only manage your own teams')
+      const playerIds = teams.flatMap((team) => team.playerIds)
+      if (new Set(playerIds).size !== playerIds.length) {
+        throw new Error('Each player can only be in one team')
+      }
+      const owned = await context.prisma.player.count({
+        where: { id: { in: playerIds }, ...(user.role === 'ADMIN' ? {} : { userId: user.id }) },
+      })
+      if (owned !== playerIds.length) {
+        throw new Error('Tournaments can only include your own players')
       }
 
-      const extendedPrisma = context.prisma as PrismaClientWithTeamPlayer
-      await extendedPrisma.teamPlayer.delete({
-        where: {
-          teamId_playerId: {
-            teamId,
-            playerId,
+      // Throws for too few or too many teams
+      const plan = planTournament(format, teams.length, pitches)
+
+      // Fixtures point at the teams, so they're created once the teams have ids
+      return context.prisma.$transaction(async (tx) => {
+        const tournament = await tx.tournament.create({
+          data: {
+            name,
+            format,
+            pitches,
+            slotMinutes,
+            startsAt,
+            userId: user.id,
+            teams: {
+              create: teams.map((team, seed) => ({
+                name: team.name.trim(),
+                seed,
+                players: { create: team.playerIds.map((playerId) => ({ playerId })) },
+              })),
+            },
           },
-        },
+          include: { teams: { orderBy: { seed: 'asc' } } },
+        })
+
+        const teamId = (seed: number | null) => (seed === null ? null : tournament.teams[seed]!.id)
+        await tx.tournamentFixture.createMany({
+          data: plan.map((fixture) => ({
+            tournamentId: tournament.id,
+            round: fixture.round,
+            bracketIndex: fixture.bracketIndex,
+            slot: fixture.slot,
+            pitch: fixture.pitch,
+            homeTeamId: teamId(fixture.home),
+            awayTeamId: teamId(fixture.away),
+          })),
+        })
+        return tournament
       })
+    },
 
-      const updatedTeam = await context.prisma.team.findUnique({
-        where: { id: teamId },
+    recordTournamentResult: async (
+      _: unknown,
+      {
+        fixtureId,
+        homeScore,
+        awayScore,
+        winnerTeamId,
+      }: { fixtureId: number; homeScore: number; awayScore: number; winnerTeamId?: number | null },
+      context: Context,
+    ): Promise<Tournament> => {
+      const user = requireAuth(context)
+
+      const fixture = await context.prisma.tournamentFixture.findUnique({
+        where: { id: fixtureId },
       })
+      if (!fixture) {
+        throw new Error(`Tournament fixture with id ${fixtureId} not found`)
+      }
+      const tournament = await findManagedTournament(context, user, fixture.tournamentId)
+      validateScores(homeScore, awayScore)
 
-      if (!updatedTeam) {
-        throw new Error(`Team with id ${teamId} not found`)
+      if (fixture.homeTeamId === null || fixture.awayTeamId === null) {
+        throw new Error('Both teams need to be known before the result is recorded')
       }
 
-      return updatedTeam
+      // Only a drawn knockout fixture keeps a winner; everything else is decided by the score
+      let winner: number | null = null
+      if (tournament.format === 'KNOCKOUT' && homeScore === awayScore) {
+        if (winnerTeamId !== fixture.homeTeamId && winnerTeamId !== fixture.awayTeamId) {
+          throw new Error('A drawn knockout fixture needs a winner from one of its two teams')
+        }
+        winner = winnerTeamId
+      }
+      const result = { homeScore, awayScore, winnerTeamId: winner }
+
+      // Knockout winners go through to their place in the next round
+      const advance = []
+      if (tournament.format === 'KNOCKOUT') {
+        const last = await context.prisma.tournamentFixture.aggregate({
+          where: { tournamentId: tournament.id },
+          _max: { round: true },
+        })
+        const next = nextKnockoutFixture(
+          fixture.round,
+          fixture.bracketIndex,
+          last._max.round ?? fixture.round,
+        )
+        const nextFixture = next
+          ? await context.prisma.tournamentFixture.findUnique({
+              where: {
+                tournamentId_round_bracketIndex: {
+                  tournamentId: tournament.id,
+                  round: next.round,
+                  bracketIndex: next.bracketIndex,
+                },
+              },
+            })
+          : null
+        const goingThrough = fixtureWinner({ ...fixture, ...result })
+        const side = next?.side === 'away' ? 'awayTeamId' : 'homeTeamId'
+        if (nextFixture && nextFixture[side] !== goingThrough) {
+          if (nextFixture.homeScore !== null) {
+            throw new Error(
+              "The next round's fixture has already been played, so the winner can't change",
+            )
+          }
+          advance.push(
+            context.prisma.tournamentFixture.update({
+              where: { id: nextFixture.id },
+              data: { [side]: goingThrough },
+            }),
+          )
+        }
+      }
+
+      await context.prisma.$transaction([
+        context.prisma.tournamentFixture.update({
+          where: { id: fixtureId },
+          data: result,
+        }),
+        ...advance,
+      ])
+      return tournament
+    },
+
+    deleteTournament: async (
+      _: unknown,
+      { id }: { id: number },
+      context: Context,
+    ): Promise<boolean> => {
+      const user = requireAuth(context)
+      await findManagedTournament(context, user, id)
+
+      await context.prisma.tournament.delete({ where: { id } })
+      return true
     },
   },
 }
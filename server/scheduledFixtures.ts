@@ -0,0 +1,58 @@
+import type { PrismaClient } from '@prisma/client'
+import { SCHEDULE_WEEKS_AHEAD, scheduledOccurrences } from '../src/utils/fixtureSchedule'
+
+/**
+ * Create the fixtures a team's schedule gives over the next few weeks. Kick-offs that
+ * already have a fixture, skipped or moved ones included, are left alone.
+ *
+ * Called when a schedule or one of its fixtures changes, and by the scheduled job as
+ * the weeks roll on; queries only read what's been created.
+ *
+ * @returns How many fixtures were created
+ */
+export async function createScheduledFixtures(args: {
+  prisma: PrismaClient
+  teamId: number
+}): Promise<number> {
+  const { prisma, teamId } = args
+  const schedule = await prisma.fixtureSchedule.findUnique({ where: { teamId } })
+  if (!schedule) return 0
+
+  const now = new Date()
+  const until = new Date(now.getTime() + SCHEDULE_WEEKS_AHEAD * 7 * 86_400_000)
+  const kickOffs = scheduledOccurrences(
+    { ...schedule, startDate: schedule.startDate.toISOString().slice(0, 10) },
+    now,
+    until,
+  )
+  if (kickOffs.length === 0) return 0
+
+  // The unique (teamId, scheduledFor) index makes this safe to repeat
+  const { count } = await prisma.fixture.createMany({
+    data: kickOffs.map((startsAt) => ({
+      teamId,
+      startsAt,
+      scheduledFor: startsAt,
+      venue: schedule.venue,
+      capacity: schedule.playersPerSide * 2,
+      cost: schedule.cost,
+    })),
+    skipDuplicates: true,
+  })
+  return count
+}
+
+/**
+ * Top up every team's scheduled fixtures to SCHEDULE_WEEKS_AHEAD. Run by the scheduled
+ * job (netlify/functions/scheduled-fixtures.ts, or hourly by the standalone server).
+ *
+ * @returns How many fixtures were created
+ */
+export async function createAllScheduledFixtures(args: { prisma: PrismaClient }): Promise<number> {
+  const schedules = await args.prisma.fixtureSchedule.findMany({ select: { teamId: true } })
+  let created = 0
+  for (const { teamId } of schedules) {
+    created += await createScheduledFixtures({ prisma: args.prisma, teamId })
+  }
+  return created
+}
@@ -111,6 +111,13 @@ export const typeDefs = `#graphql
     name: String!         # Team name (e.g., "Lions FC")
     players: [Player!]!   # Array of players in this team (resolved via junction table)
     playerCount: Int!     # Number of players in team (computed field)
+    pairingConstraints: [PairingConstraint!]! # Saved together/apart/locked pairing rules
+    matches: [Match!]!    # Saved lineups, most recent first
+    seasons: [Season!]!   # League seasons, most recent first
+    fixtures: [Fixture!]! # Upcoming fixtures, soonest first; skipped ones are left out
+    fixtureSchedule: FixtureSchedule # Regular game upcoming fixtures are created from
+    autoRating: Boolean!  # Recorded results update player ratings
+    motmVotingHours: Int! # How long after kick-off man-of-the-match voting stays open
     user: User!           # The user who owns this team
     userId: Int!          # Foreign key to the owning user
     createdAt: String!    # When the team was created
@@ -125,15 +132,767 @@ export const typeDefs = `#graphql
   type Player {
     id: Int!              # Unique identifier (primary key)
     name: String!         # Player name (e.g., "Cristiano Ronaldo")
-    rating: Int!          # Skill rating (typically 1-100)
+    rating: Int!          # Skill rating (1-100); weighted overall of attributes when it has any
+    position: Position!   # Main playing position
+    secondaryPosition: Position # Optional second position the player can cover
+    attributes: [PlayerAttribute!]! # Per-attribute scores (e.g. pace, passing)
     teams: [Team!]!       # Array of teams this player is in (resolved via junction table)
     teamCount: Int!       # Number of teams player is in (computed field)
+    matches: [Match!]!    # Saved lineups the player was in, most recent first
+    matchEvents: [MatchEvent!]! # Goals, assists, own goals and clean sheets, most recent match first
+    ratingHistory(limit: Int): [PlayerRatingChange!]! # Rating changes oldest first; limit keeps the most recent
+    stats(from: String, to: String): PlayerStats! # Computed from saved matches, optionally within a date range
+    peerRating: PeerRatingSummary! # Totals of other participants' post-match votes
+    motmAwards: Int!      # Matches the player was voted man of the match
     user: User!           # The user who owns this player
     userId: Int!          # Foreign key to the owning user
     createdAt: String!    # When the player was created
     updatedAt: String!    # When the player was last modified
   }
 
+  """
+  RatingChangeSource is what moved a player's rating.
+  """
+  enum RatingChangeSource {
+    MANUAL        # Typed in through updatePlayer
+    ATTRIBUTES    # Recalculated from attribute scores or weights
+    MATCH_RESULT  # Automatic update from a recorded result
+    PEER_RATINGS  # Accepted from other participants' post-match votes
+  }
+
+  """
+  PlayerRatingChange is one entry in a player's rating history.
+  """
+  type PlayerRatingChange {
+    id: Int!              # Unique identifier (primary key)
+    playerId: Int!
+    oldRating: Int!
+    newRating: Int!
+    change: Int!          # newRating - oldRating
+    source: RatingChangeSource!
+    changedBy: User       # Who made the change (null once that user is deleted)
+    matchId: Int          # The result behind a MATCH_RESULT change
+    createdAt: String!    # When the rating changed
+  }
+
+  """
+  PlayerStats sums up a player's saved matches.
+  from/to are ISO dates; a date-only "to" includes that whole day.
+  """
+  type PlayerStats {
+    appearances: Int!     # Saved lineups the player was in, substitutes included
+    wins: Int!            # Wins, draws and losses only count matches with a recorded result
+    draws: Int!
+    losses: Int!
+    winRate: Float        # 0-1; null before any result
+    goals: Int!
+    assists: Int!
+    ownGoals: Int!
+    cleanSheets: Int!
+    motmAwards: Int!      # Man-of-the-match wins
+    averageTeammateRating: Float # Current ratings of everyone on the player's side
+    frequentTeammates: [TeammateCount!]! # Top five, most matches first
+  }
+
+  """
+  TeammateCount is how often another player lined up on the same side.
+  """
+  type TeammateCount {
+    playerId: Int!
+    player: Player!
+    matches: Int!
+  }
+
+  """
+  Position is where a player usually lines up.
+  Team pairing spreads each position evenly across both sides.
+  """
+  enum Position {
+    GK   # Goalkeeper
+    DEF  # Defender
+    MID  # Midfielder
+    FWD  # Forward
+  }
+
+  """
+  RatingAttribute is a user-defined skill (e.g. pace, passing, defending)
+  players are scored on. Weight sets how much it counts in the overall rating.
+  """
+  type RatingAttribute {
+    id: Int!              # Unique identifier (primary key)
+    name: String!         # Attribute name, unique per user
+    weight: Float!        # Relative weight in the overall rating (0 = ignored)
+    createdAt: String!    # When the attribute was created
+    updatedAt: String!    # When the attribute was last modified
+  }
+
+  """
+  PlayerAttribute is one player's score for a rating attribute.
+  """
+  type PlayerAttribute {
+    attributeId: Int!     # The RatingAttribute this score is for
+    name: String!         # Attribute name
+    weight: Float!        # Attribute weight (copied for convenience)
+    value: Int!           # Score (1-100)
+  }
+
+  """
+  PlayerAttributeInput sets one attribute score when creating or updating a player.
+  """
+  input PlayerAttributeInput {
+    attributeId: Int!
+    value: Int!
+  }
+
+  """
+  PairingConstraintType is the kind of rule team pairing must respect.
+  """
+  enum PairingConstraintType {
+    TOGETHER  # playerId and otherPlayerId play on the same side
+    APART     # playerId and otherPlayerId play on opposite sides
+    LOCKED    # playerId always plays on the given side
+  }
+
+  """
+  PairingConstraint is a pairing rule saved against a team.
+  Rules only apply when every player they mention is selected.
+  """
+  type PairingConstraint {
+    id: Int!                     # Unique identifier (primary key)
+    teamId: Int!                 # Team the rule belongs to
+    type: PairingConstraintType! # Kind of rule
+    playerId: Int!               # Player the rule is about
+    otherPlayerId: Int           # Second player (TOGETHER/APART only)
+    side: Int                    # 1 or 2 (LOCKED only)
+    createdAt: String!           # When the rule was created
+  }
+
+  """
+  PairingConstraintInput describes one rule when saving a team's constraint set.
+  """
+  input PairingConstraintInput {
+    type: PairingConstraintType!
+    playerId: Int!
+    otherPlayerId: Int
+    side: Int
+  }
+
+  # =============================================================================
+  # TEAM PAIRING TYPES
+  # =============================================================================
+
+  """
+  PairingMode picks the pairing algorithm, matching the buttons in the app.
+  """
+  enum PairingMode {
+    BALANCED  # "Generate Teams": smallest rating difference (exact for squads up to 22)
+    RANDOM    # "Mix Teams": jittered ratings for a different but still fair split
+  }
+
+  """
+  GenerateTeamsOptions tunes a generateTeams run. Every field is optional.
+  """
+  input GenerateTeamsOptions {
+    seed: Float              # Whole number 0-4294967295; reuse a result's seed to reproduce it
+    ratingVariation: Int     # RANDOM only: +/- rating jitter (0-20, default 5)
+    iterations: Int          # Shuffle-search iterations (1-1000; default 100 BALANCED, 150 RANDOM)
+    ignoreConstraints: Boolean # Skip the team's saved pairing rules (default false)
+    unevenHandicap: Int      # Odd squads: play N v N+1 instead of a substitute (0-100 points)
+  }
+
+  """
+  AttributeDifference is the gap between the two sides' totals for one rating attribute.
+  """
+  type AttributeDifference {
+    name: String!         # Attribute name
+    difference: Int!      # Absolute gap between the on-pitch totals
+  }
+
+  """
+  SubstituteInfo describes the extra player when an odd number are selected.
+  """
+  type SubstituteInfo {
+    teamWithSub: Int!       # 1 or 2: the side the substitute joins
+    substitute: Player!     # The extra player
+    rotationPlayer: Player! # Teammate with the closest rating, to rotate with
+  }
+
+  """
+  PositionCount is how many players of one position a side has.
+  """
+  type PositionCount {
+    position: Position!
+    count: Int!
+  }
+
+  """
+  SideFairness describes how one side of a pair is made up. The substitute is left out,
+  like in ratingDifference.
+  """
+  type SideFairness {
+    playerCount: Int!
+    totalRating: Int!
+    averageRating: Int!
+    standardDeviation: Float! # Rating spread; high means a few stars carrying weaker players
+    topThree: Int!            # Sum of the three best ratings
+    positions: [PositionCount!]! # Positions with at least one player
+  }
+
+  """
+  UncoveredPosition is a position one side has covered and the other has nobody for.
+  """
+  type UncoveredPosition {
+    position: Position!
+    missingFrom: Int!     # 1 or 2: the side with nobody in this position
+  }
+
+  """
+  FairnessReport shows how evenly matched two sides are beyond their rating totals.
+  """
+  type FairnessReport {
+    team1: SideFairness!
+    team2: SideFairness!
+    uncoveredPositions: [UncoveredPosition!]!
+    team1WinProbability: Float! # Elo-style chance of side 1 winning (0-1)
+    team2WinProbability: Float! # Elo-style chance of side 2 winning (0-1)
+  }
+
+  """
+  TeamPair is two balanced sides generated from a team's players.
+  Ratings are the players' stored ratings, even in RANDOM mode.
+  """
+  type TeamPair {
+    team1: [Player!]!     # Side 1 (includes the substitute when teamWithSub is 1)
+    team2: [Player!]!     # Side 2 (includes the substitute when teamWithSub is 2)
+    ratingDifference: Int! # Gap between the on-pitch rating totals (effective strengths for N v N+1)
+    attributeDifferences: [AttributeDifference!]! # Per-attribute gaps (empty without attributes)
+    isOptimal: Boolean!   # True when no other split has a smaller rating difference
+    substituteInfo: SubstituteInfo # Present when the squad has an odd player out
+    seed: Float           # Seed the search or the exact solver's tie-breaks ran from (null for uneven sides)
+    handicap: Int         # N v N+1 sides only: the handicap they were balanced with
+    fairness: FairnessReport! # Spread, top-3 strength, position coverage and win chances
+  }
+
+  # =============================================================================
+  # MATCH TYPES
+  # =============================================================================
+
+  """
+  LineupMode records how a saved lineup's sides were picked.
+  """
+  enum LineupMode {
+    BALANCED  # Generate Teams
+    RANDOM    # Mix Teams
+    DRAFT     # Captains picked the sides
+  }
+
+  """
+  Match is a saved lineup: the two sides a team played (or will play) on a date.
+  """
+  type Match {
+    id: Int!              # Unique identifier (primary key)
+    teamId: Int!          # Team the match belongs to
+    team: Team!           # The team
+    playedAt: String!     # ISO date-time of the match
+    seasonId: Int         # League season the result counts towards
+    season: Season
+    pairingMode: LineupMode # How the sides were picked (null when entered by hand)
+    pairingSeed: Float    # Seed of a shuffled result, to reproduce it
+    players: [MatchPlayer!]! # Everyone in the lineup, side 1 first
+    team1Score: Int       # Final score; both null until the result is recorded
+    team2Score: Int
+    events: [MatchEvent!]! # Goals, assists, own goals and clean sheets, in match order
+    ratedAt: String       # When the result updated player ratings (null if it hasn't)
+    peerRaters: [Player!]! # Participants who have rated the others; their scores stay hidden
+    motm: MotmPoll!       # Man-of-the-match voting
+    createdAt: String!    # When the match was saved
+    updatedAt: String!    # When the match was last modified
+  }
+
+  """
+  MatchPlayer is one player's place in a saved lineup.
+  """
+  type MatchPlayer {
+    playerId: Int!
+    player: Player!
+    side: Int!            # 1 or 2
+    isSubstitute: Boolean! # Started on the bench
+    ballotToken: String!  # Secret for the player's voting link (see ballot); send it only to them
+  }
+
+  """
+  MatchEventType is what a player did in a match.
+  """
+  enum MatchEventType {
+    GOAL         # Counts for the scorer's side
+    ASSIST
+    OWN_GOAL     # Counts for the other side
+    CLEAN_SHEET  # Only for a side that conceded nothing
+  }
+
+  """
+  MatchEvent is one goal, assist, own goal or clean sheet in a match.
+  """
+  type MatchEvent {
+    id: Int!              # Unique identifier (primary key)
+    matchId: Int!
+    match: Match!
+    playerId: Int!
+    player: Player!
+    type: MatchEventType!
+    minute: Int           # When it happened, if noted
+    createdAt: String!
+  }
+
+  """
+  MatchPlayerInput places one player in a lineup being saved.
+  """
+  input MatchPlayerInput {
+    playerId: Int!
+    side: Int!            # 1 or 2
+    isSubstitute: Boolean # Defaults to false
+  }
+
+  """
+  CreateMatchInput describes a lineup to save.
+  """
+  input CreateMatchInput {
+    teamId: Int!
+    playedAt: String      # ISO date-time; defaults to now
+    seasonId: Int         # Season of the same team, covering playedAt
+    pairingMode: LineupMode
+    pairingSeed: Float    # Whole number 0-4294967295
+    players: [MatchPlayerInput!]!
+  }
+
+  """
+  RatingChange is how a recorded result moves one player's rating.
+  """
+  type RatingChange {
+    playerId: Int!
+    player: Player!
+    side: Int!            # 1 or 2
+    oldRating: Int!
+    newRating: Int!
+    change: Int!          # newRating - oldRating
+    skipped: Boolean!     # Rating comes from attribute scores, so it's left as it is
+  }
+
+  """
+  AddMatchEventInput records one event for a player in a saved lineup.
+  """
+  input AddMatchEventInput {
+    matchId: Int!
+    playerId: Int!        # Must be in the match's lineup
+    type: MatchEventType!
+    minute: Int           # 0-200
+  }
+
+  """
+  PeerVoteInput is one participant's 1-10 score for another player in the match.
+  """
+  input PeerVoteInput {
+    playerId: Int!
+    score: Int!           # 1-10
+  }
+
+  """
+  Ballot is one participant's voting page for a match, opened from their own link
+  without signing in. Only names are shared with it.
+  """
+  type Ballot {
+    matchId: Int!
+    playedAt: String!
+    voter: BallotPlayer!  # The participant the link belongs to
+    players: [BallotPlayer!]! # Everyone else in the lineup
+    hasRated: Boolean!    # Whether the voter has rated the others; their scores stay hidden
+    motmOpen: Boolean!    # Whether man-of-the-match voting is open (see MotmPoll)
+    motmClosesAt: String! # When man-of-the-match voting closes, or closed
+    motmVote: BallotPlayer # Who the voter picked as man of the match, once they have
+  }
+
+  """
+  BallotPlayer is a participant as a ballot shows them.
+  """
+  type BallotPlayer {
+    id: Int!
+    name: String!
+  }
+
+  """
+  PeerRatingSummary totals the votes a player has had from the last 10 rated
+  matches. Below minimumVotes there is no average or suggestion; the highest and
+  lowest fifth of the votes are left out of the average.
+  """
+  type PeerRatingSummary {
+    votes: Int!
+    matches: Int!         # Matches the votes came from
+    average: Float        # 1-10, to one decimal place
+    suggestedRating: Int  # The average on the 1-100 rating scale
+    minimumVotes: Int!
+  }
+
+  """
+  MotmPoll is a match's man-of-the-match vote. It opens at kick-off and closes
+  the team's motmVotingHours later; the hourly job then stores the player with the
+  most votes as the winner, a tie going to whoever reached that many votes first.
+  """
+  type MotmPoll {
+    closesAt: String!
+    isOpen: Boolean!
+    voters: [Player!]!    # Participants who have voted
+    tally: [MotmCount!]!  # Most votes first, in the order a tie is settled
+    winner: Player        # Null until the closed poll is counted, or if nobody voted
+  }
+
+  """
+  MotmCount is how many man-of-the-match votes a player has in a match.
+  """
+  type MotmCount {
+    playerId: Int!
+    player: Player!
+    votes: Int!
+  }
+
+  # =============================================================================
+  # SEASON TYPES
+  # =============================================================================
+
+  """
+  Season is a run of weeks a team's results are ranked over.
+  A team's seasons never overlap.
+  """
+  type Season {
+    id: Int!              # Unique identifier (primary key)
+    teamId: Int!
+    team: Team!
+    name: String!         # Unique per team (e.g. "Spring 2026")
+    startDate: String!    # YYYY-MM-DD, first day
+    endDate: String!      # YYYY-MM-DD, last day (included)
+    minAppearances: Int!  # Appearances needed to be ranked in the league table
+    matchCount: Int!      # Saved lineups tagged to the season
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  """
+  SeasonInput describes a season to create or update.
+  """
+  input SeasonInput {
+    name: String!
+    startDate: String!    # YYYY-MM-DD
+    endDate: String!      # YYYY-MM-DD, on or after startDate
+    minAppearances: Int   # 0-100, defaults to 0
+  }
+
+  """
+  LeagueTableRow is one player's record in a season: their side's result in every
+  tagged match they played with a recorded result.
+  """
+  type LeagueTableRow {
+    position: Int!        # 1 = top; unqualified players come after everyone who qualified
+    playerId: Int!
+    player: Player!
+    appearances: Int!
+    wins: Int!
+    draws: Int!
+    losses: Int!
+    goalsFor: Int!        # Scored by the player's side
+    goalsAgainst: Int!
+    goalDifference: Int!
+    points: Int!          # 3 for a win, 1 for a draw
+    qualified: Boolean!   # Has at least the minimum number of appearances
+  }
+
+  # =============================================================================
+  # FIXTURE TYPES
+  # =============================================================================
+
+  """
+  RsvpStatus is a player's answer to a fixture.
+  """
+  enum RsvpStatus {
+    IN        # Playing
+    OUT       # Can't make it
+    MAYBE     # Not sure yet
+    WAITLIST  # Said they're in when the fixture was full; never set directly
+  }
+
+  """
+  Fixture is a game a team has arranged, for players to say whether they can make it.
+  """
+  type Fixture {
+    id: Int!              # Unique identifier (primary key)
+    teamId: Int!
+    team: Team!
+    startsAt: String!     # ISO date-time of kick-off
+    venue: String
+    capacity: Int         # Players the pitch takes, the rest wait; null for no limit
+    cost: Int             # Pitch hire in pence/cents, split between the players who are in
+    shares: [FeeShare!]!  # Each confirmed player's part of the cost, lowest player ID first; the saved charges once charged
+    chargedAt: String     # When the cost was shared out, soon after kick-off; null until then
+    scheduledFor: String  # Kick-off from the team's schedule, kept if moved; null if arranged by hand
+    skipped: Boolean!     # Not happening this time; only scheduled fixtures are skipped
+    responses: [FixtureResponse!]! # In the order they were last changed
+    waitlist: [FixtureResponse!]! # First to be promoted first
+    counts: RsvpCounts!
+    changes: [FixtureResponseChange!]! # Every answer and promotion, most recent first
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  """
+  FixtureResponse is one player's answer to a fixture.
+  Players who haven't answered have no response.
+  """
+  type FixtureResponse {
+    playerId: Int!
+    player: Player!
+    status: RsvpStatus!
+    updatedAt: String!    # When the current answer was given; orders the waitlist
+  }
+
+  """
+  FixtureResponseChange is one change to a fixture's answers.
+  """
+  type FixtureResponseChange {
+    id: Int!
+    playerId: Int!
+    player: Player!
+    status: RsvpStatus    # Null when the answer was cleared
+    promoted: Boolean!    # Moved up from the waitlist when a place came free
+    createdAt: String!
+  }
+
+  """
+  RsvpCounts totals a fixture's answers.
+  """
+  type RsvpCounts {
+    in: Int!
+    out: Int!
+    maybe: Int!
+    waitlist: Int!
+    noResponse: Int!      # Squad players who haven't answered
+  }
+
+  """
+  FixtureInput describes a fixture to create or update.
+  """
+  input FixtureInput {
+    startsAt: String!     # ISO date-time of kick-off
+    venue: String
+    capacity: Int         # 2-100; null for no limit
+    cost: Int             # Pence/cents; null when it's free
+  }
+
+  """
+  ScheduleFrequency is how often a team's regular game is played.
+  """
+  enum ScheduleFrequency {
+    WEEKLY
+    FORTNIGHTLY
+  }
+
+  """
+  FixtureSchedule is a team's regular game, e.g. "Tuesdays at 19:00, 5v5". Fixtures
+  for the next few weeks are created from it; each can then be moved or skipped on
+  its own without changing the schedule.
+  """
+  type FixtureSchedule {
+    id: Int!
+    teamId: Int!
+    frequency: ScheduleFrequency!
+    weekday: Int!         # 0 = Sunday ... 6 = Saturday
+    time: String!         # Kick-off as HH:MM in timeZone
+    timeZone: String!     # IANA name, e.g. Europe/London
+    playersPerSide: Int!  # 5 for 5v5; fixtures from the schedule take twice this many
+    format: String!       # "5v5"
+    venue: String
+    cost: Int             # Given to each fixture from the schedule
+    startDate: String!    # YYYY-MM-DD; the series starts that week and fortnights count from it
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  """
+  FixtureScheduleInput describes a team's regular game.
+  """
+  input FixtureScheduleInput {
+    frequency: ScheduleFrequency!
+    weekday: Int!         # 0 = Sunday ... 6 = Saturday
+    time: String!         # HH:MM
+    timeZone: String!     # IANA name, e.g. Europe/London
+    playersPerSide: Int!  # 2-11
+    venue: String
+    cost: Int             # Pence/cents; null when it's free
+    startDate: String     # YYYY-MM-DD; defaults to today for a new schedule, kept otherwise
+  }
+
+  # =============================================================================
+  # LEDGER TYPES
+  # =============================================================================
+
+  """
+  FeeShare is one player's part of a fixture's cost. Costs split to within a penny;
+  the odd pennies go to the lowest player IDs.
+  """
+  type FeeShare {
+    playerId: Int!
+    player: Player!
+    amount: Int!          # Pence/cents
+  }
+
+  """
+  Payment is money a player has handed over towards a team's fixture costs.
+  """
+  type Payment {
+    id: Int!
+    teamId: Int!
+    playerId: Int!
+    player: Player!
+    amount: Int!          # Pence/cents; negative for a refund
+    note: String
+    paidAt: String!
+    createdAt: String!
+  }
+
+  """
+  PaymentInput describes a payment to record.
+  """
+  input PaymentInput {
+    playerId: Int!
+    amount: Int!          # Pence/cents; negative for a refund, never 0
+    note: String
+    paidAt: String        # ISO date-time; defaults to now
+  }
+
+  """
+  LedgerEntryKind is what a line of a player's account is for.
+  """
+  enum LedgerEntryKind {
+    FEE                   # Their share of a fixture's cost, charged at kick-off
+    PAYMENT
+  }
+
+  """
+  LedgerEntry is one line of a player's account with a team.
+  """
+  type LedgerEntry {
+    playerId: Int!
+    player: Player!
+    kind: LedgerEntryKind!
+    date: String!         # Kick-off for a fee, paidAt for a payment
+    amount: Int!          # Pence/cents; negative for a fee
+    fixture: Fixture      # The fixture a fee is for
+    paymentId: Int        # The payment, to delete a mistake
+    note: String
+    balance: Int!         # The player's balance after this entry
+  }
+
+  """
+  PlayerBalance totals a player's account with a team.
+  """
+  type PlayerBalance {
+    playerId: Int!
+    player: Player!
+    charged: Int!         # Shares of played fixtures' costs
+    paid: Int!
+    balance: Int!         # paid - charged: negative is owed, positive is credit
+  }
+
+  # =============================================================================
+  # TOURNAMENT TYPES
+  # =============================================================================
+
+  """
+  TournamentFormat is how a tournament's fixtures are drawn up.
+  """
+  enum TournamentFormat {
+    ROUND_ROBIN  # Every team plays every other once; a league table decides it
+    KNOCKOUT     # Winners go through; top seeds get any byes
+  }
+
+  """
+  Tournament is a mini tournament between teams split from a big pool.
+  """
+  type Tournament {
+    id: Int!              # Unique identifier (primary key)
+    name: String!
+    format: TournamentFormat!
+    pitches: Int!         # Fixtures played at the same time
+    slotMinutes: Int!     # Length of a time slot, changeovers included
+    startsAt: String!     # ISO date-time the first slot starts
+    teams: [TournamentTeam!]! # In seed order
+    fixtures: [TournamentFixture!]! # In slot, then pitch order
+    standings: [TournamentStanding!]! # Round robin only: the live table (empty for knockouts)
+    winner: TournamentTeam # Once every fixture that decides it has a result
+    createdAt: String!
+  }
+
+  """
+  TournamentTeam is one side in a tournament.
+  """
+  type TournamentTeam {
+    id: Int!
+    name: String!
+    seed: Int!            # 0 = first seed; breaks ties and places byes
+    players: [Player!]!
+  }
+
+  """
+  TournamentFixture is one game in a tournament's schedule. Later knockout rounds
+  start without teams and are filled in as winners come through.
+  """
+  type TournamentFixture {
+    id: Int!
+    round: Int!
+    bracketIndex: Int!    # Place in the round; knockout winners of 2i and 2i+1 meet in i
+    slot: Int!            # Time slot, 0 = the start
+    pitch: Int!           # 1 = the first pitch
+    homeTeamId: Int
+    awayTeamId: Int
+    homeScore: Int        # Both null until the result is recorded
+    awayScore: Int
+    winnerTeamId: Int     # Knockout draws only: who went through
+  }
+
+  """
+  TournamentStanding is one team's row in a round-robin table. Teams are ranked by
+  points, goal difference, goals scored, head-to-head points, then seed.
+  """
+  type TournamentStanding {
+    position: Int!
+    teamId: Int!
+    played: Int!
+    won: Int!
+    drawn: Int!
+    lost: Int!
+    goalsFor: Int!
+    goalsAgainst: Int!
+    goalDifference: Int!
+    points: Int!          # 3 for a win, 1 for a draw
+  }
+
+  """
+  TournamentTeamInput is one team in a tournament being created.
+  """
+  input TournamentTeamInput {
+    name: String!
+    playerIds: [Int!]!    # The current user's players; each can only be in one team
+  }
+
+  """
+  CreateTournamentInput describes a tournament to schedule. Teams are seeded in order.
+  """
+  input CreateTournamentInput {
+    name: String!
+    format: TournamentFormat!
+    pitches: Int!         # 1-10
+    slotMinutes: Int!     # 5-240
+    startsAt: String      # ISO date-time; defaults to now
+    teams: [TournamentTeamInput!]! # 2-16 teams
+  }
+
   # =============================================================================
   # QUERY OPERATIONS (READ DATA)
   # =============================================================================
@@ -191,6 +950,108 @@ export const typeDefs = `#graphql
     Requires authentication and player ownership.
     """
     teamsForPlayer(playerId: Int!): [Team!]!
+
+    """
+    Get the rating attributes defined by the current user.
+    Requires authentication.
+    """
+    ratingAttributes: [RatingAttribute!]!
+
+    """
+    Split the given players from a team into two balanced sides, using the same
+    algorithms as the app. The team's saved pairing rules apply unless ignored.
+    Every player must be in the team.
+    Requires authentication and ownership of the team (admins can use any team).
+    """
+    generateTeams(
+      teamId: Int!
+      playerIds: [Int!]!
+      mode: PairingMode = BALANCED
+      options: GenerateTeamsOptions
+    ): TeamPair!
+
+    # Match queries
+    """
+    Get a team's saved lineups, most recent first; all the user's teams when teamId is
+    left out. Requires authentication and ownership of the team (admins can see any team).
+    """
+    matches(teamId: Int): [Match!]!
+
+    """
+    Get a saved lineup by ID.
+    Returns null unless the current user owns its team (admins can see any match).
+    """
+    match(id: Int!): Match
+
+    """
+    Preview the rating changes a score would make for a match, without saving anything.
+    Uses a team-based Elo update adjusted for the margin of victory. For a match that has
+    already moved ratings, the changes are relative to the ratings players have now.
+    Requires ownership of the match's team.
+    """
+    previewRatingChanges(matchId: Int!, team1Score: Int!, team2Score: Int!): [RatingChange!]!
+
+    """
+    Open a participant's ballot from the token in their voting link.
+    Needs no authentication; returns null for an unknown token.
+    """
+    ballot(token: String!): Ballot
+
+    # Season queries
+    """
+    Rank the players in a season's matches by points, then goal difference, then
+    appearances. minAppearances overrides the season's qualification rule.
+    Requires ownership of the season's team.
+    """
+    leagueTable(seasonId: Int!, minAppearances: Int): [LeagueTableRow!]!
+
+    # Fixture queries
+    """
+    Get fixtures, soonest first: one team's when teamId is given, otherwise every
+    team the current user owns. Past fixtures are left out unless includePast is set,
+    skipped ones unless includeSkipped is. Fixtures from a team's schedule are created
+    when the schedule changes and by an hourly job, never by this query.
+    Requires authentication, and ownership of the team when one is given.
+    """
+    fixtures(
+      teamId: Int
+      includePast: Boolean = false
+      includeSkipped: Boolean = false
+    ): [Fixture!]!
+
+    """
+    Get a fixture by ID.
+    Returns null unless the current user owns its team (admins can see any fixture).
+    """
+    fixture(id: Int!): Fixture
+
+    # Ledger queries
+    """
+    Who owes what: each squad player's totals with the team, plus anyone who has left
+    with money on their account. Most owed first. Within an hour of kick-off a fixture's
+    cost is charged to the players who are in then, and those shares stay as they are
+    if the fixture or its answers change later; skipped fixtures cost nothing.
+    """
+    teamBalances(teamId: Int!): [PlayerBalance!]!
+
+    """
+    A team's fees and payments, oldest first with a running balance per player; just
+    one player's when playerId is given.
+    """
+    ledger(teamId: Int!, playerId: Int): [LedgerEntry!]!
+
+    # Tournament queries
+    """
+    Get the current user's tournaments, most recent first.
+    Requires authentication.
+    """
+    tournaments: [Tournament!]!
+
+    """
+    Get a tournament by ID.
+    Returns null unless the current user created it (admins can see any tournament).
+    """
+    tournament(id: Int!): Tournament
   }
 
   # =============================================================================
@@ -229,10 +1090,11 @@ export const typeDefs = `#graphql
     createTeam(name: String!): Team!
 
     """
-    Update an existing team's name.
+    Update an existing team's name, and optionally whether results update ratings
+    and how many hours (1-168) man-of-the-match voting stays open after kick-off.
     Requires authentication and ownership of the team.
     """
-    updateTeam(id: Int!, name: String!): Team!
+    updateTeam(id: Int!, name: String!, autoRating: Boolean, motmVotingHours: Int): Team!
 
     """
     Delete a team permanently.
@@ -244,16 +1106,38 @@ export const typeDefs = `#graphql
     # Player mutations
     """
     Create a new player owned by the current user.
+    Position defaults to MID when not provided.
+    Rating is required unless attribute scores are given, in which case
+    it is derived from them.
     Requires authentication.
     """
-    createPlayer(name: String!, rating: Int!): Player!
+    createPlayer(
+      name: String!
+      rating: Int
+      position: Position
+      secondaryPosition: Position
+      attributes: [PlayerAttributeInput!]
+    ): Player!
 
     """
-    Update an existing player's name and/or rating.
-    Both fields are optional - you can update just one.
+    Update an existing player's name, rating, positions and/or attribute scores.
+    All fields are optional - you can update just one.
+    Pass secondaryPosition: null to clear it.
+    Passing attributes replaces the player's scores; while the player has any,
+    rating is derived from them and a passed rating is ignored.
+    acceptPeerRating sets the rating to peerRating.suggestedRating instead; it
+    can't be combined with rating or attributes.
     Requires authentication and ownership of the player.
     """
-    updatePlayer(id: Int!, name: String, rating: Int): Player!
+    updatePlayer(
+      id: Int!
+      name: String
+      rating: Int
+      position: Position
+      secondaryPosition: Position
+      attributes: [PlayerAttributeInput!]
+      acceptPeerRating: Boolean
+    ): Player!
 
     """
     Delete a player permanently.
@@ -262,6 +1146,28 @@ export const typeDefs = `#graphql
     """
     deletePlayer(id: Int!): Boolean!
 
+    # Rating attribute mutations
+    """
+    Define a new rating attribute for the current user.
+    Weight defaults to 1.
+    Requires authentication.
+    """
+    createRatingAttribute(name: String!, weight: Float): RatingAttribute!
+
+    """
+    Rename or re-weight a rating attribute.
+    Players scored on it get their overall rating recalculated.
+    Requires ownership of the attribute.
+    """
+    updateRatingAttribute(id: Int!, name: String, weight: Float): RatingAttribute!
+
+    """
+    Delete a rating attribute and every score recorded for it.
+    Affected players get their overall rating recalculated.
+    Requires ownership of the attribute.
+    """
+    deleteRatingAttribute(id: Int!): Boolean!
+
     # Team-player relationship mutations (Many-to-Many operations)
     """
     Add a player to a team (create relationship).
@@ -276,5 +1182,164 @@ export const typeDefs = `#graphql
     Requires ownership of the team.
     """
     removePlayerFromTeam(playerId: Int!, teamId: Int!): Team!
+
+    # Pairing constraint mutations
+    """
+    Replace a team's pairing constraints with the given set.
+    Every player must be in the team, and contradictory rules
+    (e.g. together and apart) are rejected.
+    Requires ownership of the team.
+    """
+    setPairingConstraints(teamId: Int!, constraints: [PairingConstraintInput!]!): [PairingConstraint!]!
+
+    # Match mutations
+    """
+    Save a lineup for a team. Every player must be in the team, appear once,
+    and each side needs at least one player who isn't a substitute.
+    A seasonId tags it to one of the team's seasons.
+    Requires ownership of the team.
+    """
+    createMatch(input: CreateMatchInput!): Match!
+
+    """
+    Record (or correct) a match's final score. Clean sheets the new score rules out
+    are removed. When the team has autoRating on, the first recorded result also
+    updates the players' ratings (see previewRatingChanges); a correction replaces the
+    match's earlier rating changes with those of the new score.
+    Requires ownership of the match's team.
+    """
+    recordMatchResult(matchId: Int!, team1Score: Int!, team2Score: Int!): Match!
+
+    """
+    Add a goal, assist, own goal or clean sheet for a player in the lineup.
+    Requires ownership of the match's team.
+    """
+    addMatchEvent(input: AddMatchEventInput!): MatchEvent!
+
+    """
+    Remove a match event. Requires ownership of the match's team.
+    """
+    removeMatchEvent(id: Int!): Boolean!
+
+    """
+    Record a participant's ratings of the others in a match, replacing any they gave
+    before. The rater is whoever the ballot token belongs to, so only their own link can
+    vote for them. Nobody rates themselves and each player is rated at most once.
+    Needs no authentication.
+    """
+    submitPeerRatings(token: String!, votes: [PeerVoteInput!]!): Ballot!
+
+    """
+    Cast a participant's man-of-the-match vote for another player in the match. The
+    voter is whoever the ballot token belongs to, so only their own link can vote for
+    them. Each participant votes once, while the poll is open (see MotmPoll).
+    Needs no authentication.
+    """
+    castMotmVote(token: String!, playerId: Int!): Ballot!
+
+    # Season mutations
+    """
+    Add a season to a team. It can't overlap the team's other seasons.
+    Requires ownership of the team.
+    """
+    createSeason(teamId: Int!, input: SeasonInput!): Season!
+
+    """
+    Rename a season, move its dates or change its qualification rule.
+    Requires ownership of the season's team.
+    """
+    updateSeason(id: Int!, input: SeasonInput!): Season!
+
+    """
+    Delete a season. Its matches are kept but no longer tagged to a season.
+    Requires ownership of the season's team.
+    """
+    deleteSeason(id: Int!): Boolean!
+
+    # Fixture mutations
+    """
+    Arrange a fixture for a team. Requires ownership of the team.
+    """
+    createFixture(teamId: Int!, input: FixtureInput!): Fixture!
+
+    """
+    Move a fixture or change its venue or capacity. Answers are kept; raising or
+    removing the capacity promotes players from the waitlist, lowering it doesn't
+    drop anyone. Requires ownership of the fixture's team.
+    """
+    updateFixture(id: Int!, input: FixtureInput!): Fixture!
+
+    """
+    Delete a fixture and its answers. A fixture from the team's schedule is skipped
+    instead, as it would only be created again. Requires ownership of the fixture's team.
+    """
+    deleteFixture(id: Int!): Boolean!
+
+    """
+    Skip a fixture from the team's schedule this time, or restore it with skipped
+    false. Answers are kept for a restore. Requires ownership of the fixture's team.
+    """
+    skipFixture(id: Int!, skipped: Boolean = true): Fixture!
+
+    """
+    Give a team a regular game, or change it, and create its fixtures for the next
+    four weeks.
+    Upcoming fixtures from the old schedule that nobody has answered or changed are
+    replaced; the rest are kept. Requires ownership of the team.
+    """
+    setFixtureSchedule(teamId: Int!, input: FixtureScheduleInput!): FixtureSchedule!
+
+    """
+    Stop a team's regular game. Upcoming fixtures from it that nobody has answered or
+    changed are deleted; the rest are kept. Requires ownership of the team.
+    """
+    deleteFixtureSchedule(teamId: Int!): Boolean!
+
+    """
+    Record a player's answer to a fixture; status null clears it. Saying IN when the
+    fixture is full joins the back of the waitlist, and when a confirmed player drops
+    out the first player waiting is promoted. Every change is kept in Fixture.changes.
+    The player must be in the fixture's team, and a skipped fixture can't be answered.
+    Requires ownership of the fixture's team.
+    """
+    setRsvp(fixtureId: Int!, playerId: Int!, status: RsvpStatus): Fixture!
+
+    # Ledger mutations
+    """
+    Record money a player has paid towards the team's fixture costs. The player must
+    belong to the team's owner; they needn't still be in the squad. Requires ownership
+    of the team.
+    """
+    recordPayment(teamId: Int!, input: PaymentInput!): Payment!
+
+    """
+    Delete a payment recorded by mistake. Requires ownership of its team.
+    """
+    deletePayment(id: Int!): Boolean!
+
+    # Tournament mutations
+    """
+    Schedule a round-robin or knockout tournament across the given pitches and time
+    slots. Every player must belong to the current user.
+    """
+    createTournament(input: CreateTournamentInput!): Tournament!
+
+    """
+    Record (or correct) a fixture's score. A drawn knockout fixture needs winnerTeamId;
+    the winner goes through to the next round, which can't be changed once that
+    fixture has a result. Requires ownership of the tournament.
+    """
+    recordTournamentResult(
+      fixtureId: Int!
+      homeScore: Int!
+      awayScore: Int!
+      winnerTeamId: Int
+    ): Tournament!
+
+    """
+    Delete a tournament with its teams and fixtures.
+    Requires ownership of the tournament.
+    """
+    deleteTournament(id: Int!): Boolean!
   }
 `
@@ -1,11 +1,11 @@
 import fs from 'fs/promises'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import type { PrismaClient } from '@prisma/client'
+import type { PrismaClient, Position } from '@prisma/client'
 
 type StarterData = {
   team: { name: string }
-  players: Array<{ name: string; rating: number }>
+  players: Array<{ name: string; rating: number; position?: Position }>
 }
 
 const __filename = fileURLToPath(import.meta.url)
@@ -39,6 +39,7 @@ export async function ensureStarterDataForUser(args: { prisma: PrismaClient; use
         data: {
           name: p.name,
           rating: p.rating,
+          position: p.position,
           userId: args.userId,
         },
       }),
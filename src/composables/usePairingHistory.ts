@@ -0,0 +1,40 @@
+import { ref, watch, type Ref } from 'vue'
+import { MAX_HISTORY, type LineupRecord } from '../utils/pairingHistory'
+
+// Saved lineups are kept on this device, newest first, per pairing view (e.g. one per team)
+const storageKey = (key: string) => `pairing-history:${key}`
+
+const loadLineups = (key: string): LineupRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(key)) ?? '[]')
+    return Array.isArray(stored) ? stored.slice(0, MAX_HISTORY) : []
+  } catch (error) {
+    console.error('Error reading saved lineups:', error)
+    return []
+  }
+}
+
+export function usePairingHistory(key: Ref<string>) {
+  const lineups = ref<LineupRecord[]>(loadLineups(key.value))
+
+  watch(key, (next) => {
+    lineups.value = loadLineups(next)
+  })
+
+  const saveLineup = (team1: Array<{ id: number }>, team2: Array<{ id: number }>) => {
+    const lineup: LineupRecord = { team1: team1.map((p) => p.id), team2: team2.map((p) => p.id) }
+    lineups.value = [lineup, ...lineups.value].slice(0, MAX_HISTORY)
+    localStorage.setItem(storageKey(key.value), JSON.stringify(lineups.value))
+  }
+
+  const clearLineups = () => {
+    lineups.value = []
+    localStorage.removeItem(storageKey(key.value))
+  }
+
+  return {
+    lineups,
+    saveLineup,
+    clearLineups,
+  }
+}
@@ -26,6 +26,14 @@ export const PLAYER_CORE_FRAGMENT = gql`
     id
     name
     rating
+    position
+    secondaryPosition
+    attributes {
+      attributeId
+      name
+      weight
+      value
+    }
     createdAt
     updatedAt
   }
@@ -46,6 +54,8 @@ export const PLAYER_BASIC_FRAGMENT = gql`
     id
     name
     rating
+    position
+    secondaryPosition
   }
 `
 
@@ -54,6 +64,8 @@ export const TEAM_CORE_FRAGMENT = gql`
   fragment TeamCore on Team {
     id
     name
+    autoRating
+    motmVotingHours
     createdAt
     updatedAt
   }
@@ -77,6 +89,235 @@ export const TEAM_BASIC_FRAGMENT = gql`
   }
 `
 
+// Rating attribute fragments
+export const RATING_ATTRIBUTE_FRAGMENT = gql`
+  fragment RatingAttributeCore on RatingAttribute {
+    id
+    name
+    weight
+  }
+`
+
+// Pairing constraint fragments
+export const PAIRING_CONSTRAINT_FRAGMENT = gql`
+  fragment PairingConstraintCore on PairingConstraint {
+    id
+    teamId
+    type
+    playerId
+    otherPlayerId
+    side
+  }
+`
+
+// Rating history fragments
+export const RATING_CHANGE_FRAGMENT = gql`
+  fragment RatingChangeCore on PlayerRatingChange {
+    id
+    oldRating
+    newRating
+    source
+    createdAt
+  }
+`
+
+// Season fragments
+export const SEASON_FRAGMENT = gql`
+  fragment SeasonCore on Season {
+    id
+    teamId
+    name
+    startDate
+    endDate
+    minAppearances
+  }
+`
+
+// Fixture fragments
+export const FIXTURE_FRAGMENT = gql`
+  fragment FixtureCore on Fixture {
+    id
+    teamId
+    team {
+      id
+      name
+    }
+    startsAt
+    venue
+    capacity
+    cost
+    shares {
+      playerId
+      amount
+    }
+    scheduledFor
+    skipped
+    responses {
+      playerId
+      status
+      updatedAt
+    }
+    counts {
+      in
+      out
+      maybe
+      waitlist
+      noResponse
+    }
+  }
+`
+
+export const FIXTURE_SCHEDULE_FRAGMENT = gql`
+  fragment FixtureScheduleCore on FixtureSchedule {
+    id
+    teamId
+    frequency
+    weekday
+    time
+    timeZone
+    playersPerSide
+    format
+    venue
+    cost
+    startDate
+  }
+`
+
+// Tournament fragments
+export const TOURNAMENT_FRAGMENT = gql`
+  fragment TournamentDetail on Tournament {
+    id
+    name
+    format
+    pitches
+    slotMinutes
+    startsAt
+    teams {
+      id
+      name
+      seed
+      players {
+        id
+        name
+        rating
+      }
+    }
+    fixtures {
+      id
+      round
+      bracketIndex
+      slot
+      pitch
+      homeTeamId
+      awayTeamId
+      homeScore
+      awayScore
+      winnerTeamId
+    }
+    standings {
+      position
+      teamId
+      played
+      won
+      drawn
+      lost
+      goalsFor
+      goalsAgainst
+      goalDifference
+      points
+    }
+    winner {
+      id
+      name
+    }
+    createdAt
+  }
+`
+
+// Match fragments
+export const MATCH_EVENT_FRAGMENT = gql`
+  fragment MatchEventCore on MatchEvent {
+    id
+    matchId
+    playerId
+    type
+    minute
+  }
+`
+
+export const MATCH_CORE_FRAGMENT = gql`
+  fragment MatchCore on Match {
+    id
+    teamId
+    playedAt
+    seasonId
+    season {
+      id
+      name
+    }
+    pairingMode
+    pairingSeed
+    players {
+      playerId
+      side
+      isSubstitute
+      player {
+        ...PlayerBasic
+      }
+    }
+    team1Score
+    team2Score
+    ratedAt
+    events {
+      ...MatchEventCore
+    }
+    createdAt
+  }
+  ${PLAYER_BASIC_FRAGMENT}
+  ${MATCH_EVENT_FRAGMENT}
+`
+
+export const MOTM_POLL_FRAGMENT = gql`
+  fragment MotmPoll on MotmPoll {
+    closesAt
+    isOpen
+    voters {
+      id
+      name
+    }
+    tally {
+      playerId
+      votes
+    }
+    winner {
+      id
+      name
+    }
+  }
+`
+
+export const BALLOT_FRAGMENT = gql`
+  fragment BallotCore on Ballot {
+    matchId
+    playedAt
+    voter {
+      id
+      name
+    }
+    players {
+      id
+      name
+    }
+    hasRated
+    motmOpen
+    motmClosesAt
+    motmVote {
+      id
+      name
+    }
+  }
+`
+
 // Complete fragments for full object details
 export const PLAYER_COMPLETE_FRAGMENT = gql`
   fragment PlayerComplete on Player {
@@ -125,6 +366,14 @@ export const PLAYER_STATS_FRAGMENT = gql`
     id
     name
     rating
+    position
+    secondaryPosition
+    attributes {
+      attributeId
+      name
+      weight
+      value
+    }
     teams {
       id
       name
@@ -5,6 +5,18 @@ import {
   TEAM_BASIC_FRAGMENT,
   TEAM_STATS_FRAGMENT,
   PLAYER_STATS_FRAGMENT,
+  PAIRING_CONSTRAINT_FRAGMENT,
+  RATING_ATTRIBUTE_FRAGMENT,
+  MATCH_CORE_FRAGMENT,
+  MATCH_EVENT_FRAGMENT,
+  MOTM_POLL_FRAGMENT,
+  BALLOT_FRAGMENT,
+  RATING_CHANGE_FRAGMENT,
+  SEASON_FRAGMENT,
+  FIXTURE_FRAGMENT,
+  FIXTURE_SCHEDULE_FRAGMENT,
+  PLAYER_BASIC_FRAGMENT,
+  TOURNAMENT_FRAGMENT,
 } from './fragments'
 
 // Authentication Queries & Mutations
@@ -44,9 +56,13 @@ export const GET_TEAMS = gql`
     teams {
       ...TeamWithPlayers
       playerCount
+      fixtureSchedule {
+        ...FixtureScheduleCore
+      }
     }
   }
   ${TEAM_WITH_PLAYERS_FRAGMENT}
+  ${FIXTURE_SCHEDULE_FRAGMENT}
 `
 
 export const GET_TEAM = gql`
@@ -54,9 +70,17 @@ export const GET_TEAM = gql`
     team(id: $id) {
       ...TeamWithPlayers
       playerCount
+      pairingConstraints {
+        ...PairingConstraintCore
+      }
+      seasons {
+        ...SeasonCore
+      }
     }
   }
   ${TEAM_WITH_PLAYERS_FRAGMENT}
+  ${PAIRING_CONSTRAINT_FRAGMENT}
+  ${SEASON_FRAGMENT}
 `
 
 // Player Queries
@@ -65,9 +89,69 @@ export const GET_PLAYERS = gql`
     players {
       ...PlayerStats
       teamCount
+      motmAwards
+      ratingHistory(limit: 12) {
+        ...RatingChangeCore
+      }
+    }
+  }
+  ${PLAYER_STATS_FRAGMENT}
+  ${RATING_CHANGE_FRAGMENT}
+`
+
+export const GET_PLAYER = gql`
+  query GetPlayer($id: Int!) {
+    player(id: $id) {
+      ...PlayerStats
+      peerRating {
+        votes
+        matches
+        average
+        suggestedRating
+        minimumVotes
+      }
+      ratingHistory {
+        ...RatingChangeCore
+        change
+        changedBy {
+          id
+          username
+        }
+      }
     }
   }
   ${PLAYER_STATS_FRAGMENT}
+  ${RATING_CHANGE_FRAGMENT}
+`
+
+export const GET_PLAYER_MATCH_STATS = gql`
+  query GetPlayerMatchStats($id: Int!, $from: String, $to: String) {
+    player(id: $id) {
+      id
+      stats(from: $from, to: $to) {
+        appearances
+        wins
+        draws
+        losses
+        winRate
+        goals
+        assists
+        ownGoals
+        cleanSheets
+        motmAwards
+        averageTeammateRating
+        frequentTeammates {
+          playerId
+          matches
+          player {
+            id
+            name
+            rating
+          }
+        }
+      }
+    }
+  }
 `
 
 export const GET_PLAYERS_NOT_IN_TEAM = gql`
@@ -102,8 +186,8 @@ export const CREATE_TEAM = gql`
 `
 
 export const UPDATE_TEAM = gql`
-  mutation UpdateTeam($id: Int!, $name: String!) {
-    updateTeam(id: $id, name: $name) {
+  mutation UpdateTeam($id: Int!, $name: String!, $autoRating: Boolean, $motmVotingHours: Int) {
+    updateTeam(id: $id, name: $name, autoRating: $autoRating, motmVotingHours: $motmVotingHours) {
       ...TeamWithPlayers
       playerCount
     }
@@ -119,8 +203,20 @@ export const DELETE_TEAM = gql`
 
 // Player Mutations
 export const CREATE_PLAYER = gql`
-  mutation CreatePlayer($name: String!, $rating: Int!) {
-    createPlayer(name: $name, rating: $rating) {
+  mutation CreatePlayer(
+    $name: String!
+    $rating: Int
+    $position: Position
+    $secondaryPosition: Position
+    $attributes: [PlayerAttributeInput!]
+  ) {
+    createPlayer(
+      name: $name
+      rating: $rating
+      position: $position
+      secondaryPosition: $secondaryPosition
+      attributes: $attributes
+    ) {
       ...PlayerStats
       teamCount
     }
@@ -129,8 +225,24 @@ export const CREATE_PLAYER = gql`
 `
 
 export const UPDATE_PLAYER = gql`
-  mutation UpdatePlayer($id: Int!, $name: String, $rating: Int) {
-    updatePlayer(id: $id, name: $name, rating: $rating) {
+  mutation UpdatePlayer(
+    $id: Int!
+    $name: String
+    $rating: Int
+    $position: Position
+    $secondaryPosition: Position
+    $attributes: [PlayerAttributeInput!]
+    $acceptPeerRating: Boolean
+  ) {
+    updatePlayer(
+      id: $id
+      name: $name
+      rating: $rating
+      position: $position
+      secondaryPosition: $secondaryPosition
+      attributes: $attributes
+      acceptPeerRating: $acceptPeerRating
+    ) {
       ...PlayerStats
       teamCount
     }
@@ -144,6 +256,40 @@ export const DELETE_PLAYER = gql`
   }
 `
 
+// Rating Attribute Queries & Mutations
+export const GET_RATING_ATTRIBUTES = gql`
+  query GetRatingAttributes {
+    ratingAttributes {
+      ...RatingAttributeCore
+    }
+  }
+  ${RATING_ATTRIBUTE_FRAGMENT}
+`
+
+export const CREATE_RATING_ATTRIBUTE = gql`
+  mutation CreateRatingAttribute($name: String!, $weight: Float) {
+    createRatingAttribute(name: $name, weight: $weight) {
+      ...RatingAttributeCore
+    }
+  }
+  ${RATING_ATTRIBUTE_FRAGMENT}
+`
+
+export const UPDATE_RATING_ATTRIBUTE = gql`
+  mutation UpdateRatingAttribute($id: Int!, $name: String, $weight: Float) {
+    updateRatingAttribute(id: $id, name: $name, weight: $weight) {
+      ...RatingAttributeCore
+    }
+  }
+  ${RATING_ATTRIBUTE_FRAGMENT}
+`
+
+export const DELETE_RATING_ATTRIBUTE = gql`
+  mutation DeleteRatingAttribute($id: Int!) {
+    deleteRatingAttribute(id: $id)
+  }
+`
+
 export const ADD_PLAYER_TO_TEAM = gql`
   mutation AddPlayerToTeam($playerId: Int!, $teamId: Int!) {
     addPlayerToTeam(playerId: $playerId, teamId: $teamId) {
@@ -163,3 +309,400 @@ export const REMOVE_PLAYER_FROM_TEAM = gql`
   }
   ${TEAM_STATS_FRAGMENT}
 `
+
+// Pairing Constraint Mutations
+export const SET_PAIRING_CONSTRAINTS = gql`
+  mutation SetPairingConstraints($teamId: Int!, $constraints: [PairingConstraintInput!]!) {
+    setPairingConstraints(teamId: $teamId, constraints: $constraints) {
+      ...PairingConstraintCore
+    }
+  }
+  ${PAIRING_CONSTRAINT_FRAGMENT}
+`
+
+// Match Queries & Mutations
+export const GET_MATCHES = gql`
+  query GetMatches($teamId: Int) {
+    matches(teamId: $teamId) {
+      ...MatchCore
+    }
+  }
+  ${MATCH_CORE_FRAGMENT}
+`
+
+export const GET_MATCH = gql`
+  query GetMatch($id: Int!) {
+    match(id: $id) {
+      ...MatchCore
+      players {
+        playerId
+        ballotToken
+      }
+      team {
+        id
+        autoRating
+      }
+      peerRaters {
+        id
+        name
+      }
+      motm {
+        ...MotmPoll
+      }
+    }
+  }
+  ${MATCH_CORE_FRAGMENT}
+  ${MOTM_POLL_FRAGMENT}
+`
+
+export const CREATE_MATCH = gql`
+  mutation CreateMatch($input: CreateMatchInput!) {
+    createMatch(input: $input) {
+      ...MatchCore
+    }
+  }
+  ${MATCH_CORE_FRAGMENT}
+`
+
+export const PREVIEW_RATING_CHANGES = gql`
+  query PreviewRatingChanges($matchId: Int!, $team1Score: Int!, $team2Score: Int!) {
+    previewRatingChanges(matchId: $matchId, team1Score: $team1Score, team2Score: $team2Score) {
+      playerId
+      side
+      oldRating
+      newRating
+      change
+      skipped
+      player {
+        id
+        name
+      }
+    }
+  }
+`
+
+export const RECORD_MATCH_RESULT = gql`
+  mutation RecordMatchResult($matchId: Int!, $team1Score: Int!, $team2Score: Int!) {
+    recordMatchResult(matchId: $matchId, team1Score: $team1Score, team2Score: $team2Score) {
+      ...MatchCore
+    }
+  }
+  ${MATCH_CORE_FRAGMENT}
+`
+
+export const ADD_MATCH_EVENT = gql`
+  mutation AddMatchEvent($input: AddMatchEventInput!) {
+    addMatchEvent(input: $input) {
+      ...MatchEventCore
+    }
+  }
+  ${MATCH_EVENT_FRAGMENT}
+`
+
+export const REMOVE_MATCH_EVENT = gql`
+  mutation RemoveMatchEvent($id: Int!) {
+    removeMatchEvent(id: $id)
+  }
+`
+
+// A participant's own voting page, opened from their link without signing in
+export const GET_BALLOT = gql`
+  query GetBallot($token: String!) {
+    ballot(token: $token) {
+      ...BallotCore
+    }
+  }
+  ${BALLOT_FRAGMENT}
+`
+
+export const SUBMIT_PEER_RATINGS = gql`
+  mutation SubmitPeerRatings($token: String!, $votes: [PeerVoteInput!]!) {
+    submitPeerRatings(token: $token, votes: $votes) {
+      ...BallotCore
+    }
+  }
+  ${BALLOT_FRAGMENT}
+`
+
+export const CAST_MOTM_VOTE = gql`
+  mutation CastMotmVote($token: String!, $playerId: Int!) {
+    castMotmVote(token: $token, playerId: $playerId) {
+      ...BallotCore
+    }
+  }
+  ${BALLOT_FRAGMENT}
+`
+
+// Season Queries & Mutations
+export const GET_SEASONS = gql`
+  query GetSeasons($teamId: Int!) {
+    team(id: $teamId) {
+      id
+      name
+      seasons {
+        ...SeasonCore
+        matchCount
+      }
+    }
+  }
+  ${SEASON_FRAGMENT}
+`
+
+export const GET_LEAGUE_TABLE = gql`
+  query GetLeagueTable($seasonId: Int!, $minAppearances: Int) {
+    leagueTable(seasonId: $seasonId, minAppearances: $minAppearances) {
+      position
+      playerId
+      player {
+        id
+        name
+      }
+      appearances
+      wins
+      draws
+      losses
+      goalsFor
+      goalsAgainst
+      goalDifference
+      points
+      qualified
+    }
+  }
+`
+
+export const CREATE_SEASON = gql`
+  mutation CreateSeason($teamId: Int!, $input: SeasonInput!) {
+    createSeason(teamId: $teamId, input: $input) {
+      ...SeasonCore
+    }
+  }
+  ${SEASON_FRAGMENT}
+`
+
+export const UPDATE_SEASON = gql`
+  mutation UpdateSeason($id: Int!, $input: SeasonInput!) {
+    updateSeason(id: $id, input: $input) {
+      ...SeasonCore
+    }
+  }
+  ${SEASON_FRAGMENT}
+`
+
+export const DELETE_SEASON = gql`
+  mutation DeleteSeason($id: Int!) {
+    deleteSeason(id: $id)
+  }
+`
+
+// Fixture Queries & Mutations
+export const GET_FIXTURES = gql`
+  query GetFixtures($teamId: Int, $includePast: Boolean, $includeSkipped: Boolean) {
+    fixtures(teamId: $teamId, includePast: $includePast, includeSkipped: $includeSkipped) {
+      ...FixtureCore
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+`
+
+export const GET_FIXTURE = gql`
+  query GetFixture($id: Int!) {
+    fixture(id: $id) {
+      ...FixtureCore
+      team {
+        id
+        players {
+          ...PlayerBasic
+        }
+      }
+      changes {
+        id
+        playerId
+        player {
+          id
+          name
+        }
+        status
+        promoted
+        createdAt
+      }
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+  ${PLAYER_BASIC_FRAGMENT}
+`
+
+export const CREATE_FIXTURE = gql`
+  mutation CreateFixture($teamId: Int!, $input: FixtureInput!) {
+    createFixture(teamId: $teamId, input: $input) {
+      ...FixtureCore
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+`
+
+export const UPDATE_FIXTURE = gql`
+  mutation UpdateFixture($id: Int!, $input: FixtureInput!) {
+    updateFixture(id: $id, input: $input) {
+      ...FixtureCore
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+`
+
+export const DELETE_FIXTURE = gql`
+  mutation DeleteFixture($id: Int!) {
+    deleteFixture(id: $id)
+  }
+`
+
+export const SKIP_FIXTURE = gql`
+  mutation SkipFixture($id: Int!, $skipped: Boolean) {
+    skipFixture(id: $id, skipped: $skipped) {
+      ...FixtureCore
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+`
+
+export const SET_FIXTURE_SCHEDULE = gql`
+  mutation SetFixtureSchedule($teamId: Int!, $input: FixtureScheduleInput!) {
+    setFixtureSchedule(teamId: $teamId, input: $input) {
+      ...FixtureScheduleCore
+    }
+  }
+  ${FIXTURE_SCHEDULE_FRAGMENT}
+`
+
+export const DELETE_FIXTURE_SCHEDULE = gql`
+  mutation DeleteFixtureSchedule($teamId: Int!) {
+    deleteFixtureSchedule(teamId: $teamId)
+  }
+`
+
+export const SET_RSVP = gql`
+  mutation SetRsvp($fixtureId: Int!, $playerId: Int!, $status: RsvpStatus) {
+    setRsvp(fixtureId: $fixtureId, playerId: $playerId, status: $status) {
+      ...FixtureCore
+    }
+  }
+  ${FIXTURE_FRAGMENT}
+`
+
+// Ledger Queries & Mutations
+export const GET_TEAM_BALANCES = gql`
+  query GetTeamBalances($teamId: Int!) {
+    teamBalances(teamId: $teamId) {
+      playerId
+      player {
+        id
+        name
+      }
+      charged
+      paid
+      balance
+    }
+  }
+`
+
+export const GET_LEDGER = gql`
+  query GetLedger($teamId: Int!, $playerId: Int) {
+    ledger(teamId: $teamId, playerId: $playerId) {
+      playerId
+      kind
+      date
+      amount
+      fixture {
+        id
+        startsAt
+        venue
+      }
+      paymentId
+      note
+      balance
+    }
+  }
+`
+
+export const RECORD_PAYMENT = gql`
+  mutation RecordPayment($teamId: Int!, $input: PaymentInput!) {
+    recordPayment(teamId: $teamId, input: $input) {
+      id
+      playerId
+      amount
+      note
+      paidAt
+    }
+  }
+`
+
+export const DELETE_PAYMENT = gql`
+  mutation DeletePayment($id: Int!) {
+    deletePayment(id: $id)
+  }
+`
+
+// Tournament Queries & Mutations
+export const GET_TOURNAMENTS = gql`
+  query GetTournaments {
+    tournaments {
+      id
+      name
+      format
+      startsAt
+      teams {
+        id
+      }
+      fixtures {
+        id
+        homeScore
+      }
+      winner {
+        id
+        name
+      }
+    }
+  }
+`
+
+export const GET_TOURNAMENT = gql`
+  query GetTournament($id: Int!) {
+    tournament(id: $id) {
+      ...TournamentDetail
+    }
+  }
+  ${TOURNAMENT_FRAGMENT}
+`
+
+export const CREATE_TOURNAMENT = gql`
+  mutation CreateTournament($input: CreateTournamentInput!) {
+    createTournament(input: $input) {
+      ...TournamentDetail
+    }
+  }
+  ${TOURNAMENT_FRAGMENT}
+`
+
+export const RECORD_TOURNAMENT_RESULT = gql`
+  mutation RecordTournamentResult(
+    $fixtureId: Int!
+    $homeScore: Int!
+    $awayScore: Int!
+    $winnerTeamId: Int
+  ) {
+    recordTournamentResult(
+      fixtureId: $fixtureId
+      homeScore: $homeScore
+      awayScore: $awayScore
+      winnerTeamId: $winnerTeamId
+    ) {
+      ...TournamentDetail
+    }
+  }
+  ${TOURNAMENT_FRAGMENT}
+`
+
+export const DELETE_TOURNAMENT = gql`
+  mutation DeleteTournament($id: Int!) {
+    deleteTournament(id: $id)
+  }
+`
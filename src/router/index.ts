@@ -14,6 +14,11 @@ const router = createRouter({
       name: 'players',
       component: () => import('../views/PlayersView.vue'),
     },
+    {
+      path: '/players/:id',
+      name: 'PlayerDetail',
+      component: () => import('../views/PlayerDetailView.vue'),
+    },
     {
       path: '/pairing',
       name: 'pairing',
@@ -24,6 +29,51 @@ const router = createRouter({
       name: 'TeamPairing',
       component: () => import('../views/TeamSpecificPairingView.vue'),
     },
+    {
+      path: '/team/:teamId/matches',
+      name: 'TeamMatches',
+      component: () => import('../views/MatchHistoryView.vue'),
+    },
+    {
+      path: '/team/:teamId/standings',
+      name: 'TeamStandings',
+      component: () => import('../views/StandingsView.vue'),
+    },
+    {
+      path: '/team/:teamId/fixtures',
+      name: 'TeamFixtures',
+      component: () => import('../views/FixturesView.vue'),
+    },
+    {
+      path: '/team/:teamId/balances',
+      name: 'TeamBalances',
+      component: () => import('../views/BalancesView.vue'),
+    },
+    {
+      path: '/fixtures/:id',
+      name: 'FixtureDetail',
+      component: () => import('../views/FixtureView.vue'),
+    },
+    {
+      path: '/tournaments',
+      name: 'tournaments',
+      component: () => import('../views/TournamentsView.vue'),
+    },
+    {
+      path: '/tournaments/:id',
+      name: 'TournamentDetail',
+      component: () => import('../views/TournamentView.vue'),
+    },
+    {
+      path: '/matches/:matchId/result',
+      name: 'MatchResult',
+      component: () => import('../views/MatchResultView.vue'),
+    },
+    {
+      path: '/ballot/:token',
+      name: 'Ballot',
+      component: () => import('../views/BallotView.vue'),
+    },
   ],
 })
 
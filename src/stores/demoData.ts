@@ -1,9 +1,10 @@
 import { defineStore } from 'pinia'
 import starter from '../../data/starter-brazil-2002.json'
+import type { Position } from '../utils/teamPairing'
 
 type StarterData = {
   team: { name: string }
-  players: Array<{ name: string; rating: number }>
+  players: Array<{ name: string; rating: number; position?: Position }>
 }
 
 const starterData = starter as StarterData
@@ -11,7 +12,13 @@ const starterData = starter as StarterData
 export type DemoTeam = {
   id: number
   name: string
-  players: Array<{ id: number; name: string; rating: number }>
+  players: Array<{
+    id: number
+    name: string
+    rating: number
+    position: Position
+    secondaryPosition: Position | null
+  }>
   playerCount: number
   createdAt: string
   updatedAt: string
@@ -21,6 +28,8 @@ export type DemoPlayer = {
   id: number
   name: string
   rating: number
+  position: Position
+  secondaryPosition: Position | null
   teams: Array<{ id: number; name: string }>
   teamCount: number
   createdAt: string
@@ -40,6 +49,8 @@ export const useDemoDataStore = defineStore('demoData', {
       id: idx + 1,
       name: p.name,
       rating: p.rating,
+      position: p.position ?? 'MID',
+      secondaryPosition: null,
       teams: [{ id: teamId, name: starterData.team.name }],
       teamCount: 1,
       createdAt,
@@ -49,7 +60,13 @@ export const useDemoDataStore = defineStore('demoData', {
     const team: DemoTeam = {
       id: teamId,
       name: starterData.team.name,
-      players: players.map((p) => ({ id: p.id, name: p.name, rating: p.rating })),
+      players: players.map((p) => ({
+        id: p.id,
+        name: p.name,
+        rating: p.rating,
+        position: p.position,
+        secondaryPosition: p.secondaryPosition,
+      })),
       playerCount: players.length,
       createdAt,
       updatedAt: createdAt,
@@ -0,0 +1,63 @@
+import {
+  finishDraft,
+  pickingSide,
+  pickPlayer,
+  startDraft,
+  suggestPick,
+  undoPick,
+  type DraftState,
+} from '../captainDraft'
+import { makePlayers } from './helpers'
+
+// Pure, DB-free checks for the captain draft.
+// Run with: npm run test:captain-draft
+
+function testCaptainDraft() {
+  const order = (draftOrder: 'alternating' | 'snake') =>
+    Array.from({ length: 6 }, (_, i) => pickingSide(draftOrder, i)).join('')
+  if (order('alternating') !== '121212') throw new Error('Alternating should go A, B, A, B')
+  if (order('snake') !== '122112') throw new Error('Snake should go A, B, B, A')
+
+  const players = makePlayers([90, 85, 80, 75, 70, 65, 60, 55, 50, 45, 40])
+  let draft: DraftState = startDraft(players, 1, 2, 'snake')
+  draft = pickPlayer(draft, 3)
+  if (draft.team1.length !== 2) throw new Error('The first pick should go to Team A')
+  draft = undoPick(draft)
+  if (draft.team1.length !== 1 || draft.available[0]?.id !== 3) {
+    throw new Error('Undo should put the player back in their place in the pool')
+  }
+  try {
+    pickPlayer(draft, 1)
+    throw new Error('Captains should not be pickable')
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Captains should not be pickable') throw error
+  }
+
+  // Auto-picking every slot should leave the sides close
+  for (let suggestion = suggestPick(draft); suggestion; suggestion = suggestPick(draft)) {
+    draft = pickPlayer(draft, suggestion.id)
+  }
+  const pair = finishDraft(draft)
+  if (pair.ratingDifference > 10) {
+    throw new Error(`Auto-picked draft should be close, got ${pair.ratingDifference}`)
+  }
+
+  // Odd pool: the last pick is the substitute for the side that made it
+  const lastSide = pickingSide('snake', draft.picks.length - 1)
+  if (
+    pair.substituteInfo?.teamWithSub !== lastSide ||
+    pair.substituteInfo.substitutePair.substitute.id !== draft.picks[draft.picks.length - 1]
+  ) {
+    throw new Error('The last pick of an odd pool should be the substitute')
+  }
+  if (pair.team1.length + pair.team2.length !== players.length) {
+    throw new Error('Every drafted player should be on a side')
+  }
+}
+
+function main() {
+  testCaptainDraft()
+  console.log('captainDraft tests passed')
+}
+
+main()
@@ -0,0 +1,78 @@
+import { calculateRatingChanges, correctedRatingChanges, marginMultiplier } from '../eloRatings'
+
+// Pure, DB-free checks for rating changes from match results.
+// Run with: npm run test:elo-ratings
+
+function testRatingChanges() {
+  const lineup = [
+    { playerId: 1, rating: 60, side: 1 as const, isSubstitute: false },
+    { playerId: 2, rating: 60, side: 1 as const, isSubstitute: false },
+    { playerId: 3, rating: 60, side: 2 as const, isSubstitute: false },
+    { playerId: 4, rating: 60, side: 2 as const, isSubstitute: false, fromAttributes: true },
+    { playerId: 5, rating: 99, side: 2 as const, isSubstitute: true },
+  ]
+
+  // Even sides (the substitute doesn't count): a one-goal win is worth half the K factor
+  const narrow = calculateRatingChanges(lineup, 1, 0)
+  const change = (changes: typeof narrow, id: number) => changes.find((c) => c.playerId === id)!
+  if (change(narrow, 1).change !== 2 || change(narrow, 3).change !== -2) {
+    throw new Error('A narrow win between even sides should move ratings by 2 each way')
+  }
+  if (change(narrow, 4).change !== 0 || !change(narrow, 4).skipped) {
+    throw new Error('Attribute-derived ratings should be left alone')
+  }
+  if (change(narrow, 5).newRating !== 97) {
+    throw new Error('Substitutes should move with their side')
+  }
+
+  // Bigger margins count for more, and draws between even sides change nothing
+  const rout = calculateRatingChanges(lineup, 5, 0)
+  if (change(rout, 1).change <= change(narrow, 1).change) {
+    throw new Error('A bigger win should move ratings further')
+  }
+  if (marginMultiplier(0) !== 1 || marginMultiplier(2) !== 1.5 || marginMultiplier(-5) !== 2) {
+    throw new Error('Unexpected margin multiplier')
+  }
+  if (calculateRatingChanges(lineup, 2, 2).some((c) => c.change !== 0)) {
+    throw new Error('A draw between even sides should not change ratings')
+  }
+
+  // Ratings stay within 1-100
+  const capped = calculateRatingChanges(
+    [
+      { playerId: 1, rating: 100, side: 1, isSubstitute: false },
+      { playerId: 2, rating: 10, side: 2, isSubstitute: false },
+    ],
+    9,
+    0,
+  )
+  if (capped[0]!.newRating !== 100 || capped[0]!.change !== 0) {
+    throw new Error('Ratings should be clamped at 100')
+  }
+
+  // A 1-0 recorded as 0-1 moved ratings by -2/+2; correcting it undoes that first
+  const applied = new Map([
+    [1, -2],
+    [2, -2],
+    [3, 2],
+    [5, 1], // 99 only had room to go up by one
+  ])
+  const wrongly = lineup.map((p) => ({ ...p, rating: p.rating + (applied.get(p.playerId) ?? 0) }))
+  const corrected = correctedRatingChanges(wrongly, 1, 0, applied)
+  if (change(corrected, 1).oldRating !== 58 || change(corrected, 1).newRating !== 62) {
+    throw new Error('A correction should run from the current rating to the corrected one')
+  }
+  if (change(corrected, 3).change !== -4 || change(corrected, 4).change !== 0) {
+    throw new Error('A correction should replace the old changes, not add to them')
+  }
+  if (correctedRatingChanges(wrongly, 0, 1, applied).some((c) => c.change !== 0)) {
+    throw new Error('Saving the same score again should change nothing')
+  }
+}
+
+function main() {
+  testRatingChanges()
+  console.log('eloRatings tests passed')
+}
+
+main()
@@ -0,0 +1,66 @@
+import { buildFairnessReport } from '../fairnessReport'
+import { effectiveStrength, type Position } from '../teamPairing'
+import { makePlayers } from './helpers'
+
+// Pure, DB-free checks for the fairness report.
+// Run with: npm run test:fairness-report
+
+function testFairnessReport() {
+  // Equal totals: one star with weak players against an even spread
+  const stars = makePlayers([95, 55, 50, 50, 50])
+  const even = makePlayers([60, 60, 60, 60, 60]).map((p) => ({ ...p, id: p.id + 10 }))
+  const report = buildFairnessReport(stars, even)
+
+  if (report.team1.totalRating !== report.team2.totalRating) {
+    throw new Error('Expected the sides to have equal totals')
+  }
+  if (report.team1.standardDeviation <= report.team2.standardDeviation) {
+    throw new Error('The star-heavy side should have the larger spread')
+  }
+  if (report.team1.topThree !== 200 || report.team2.topThree !== 180) {
+    throw new Error('Top-3 strength should sum the three best ratings')
+  }
+  if (!(report.team1WinProbability > 0.5 && report.team1WinProbability < 0.75)) {
+    throw new Error(`Unexpected win probability ${report.team1WinProbability}`)
+  }
+  if (Math.abs(report.team1WinProbability + report.team2WinProbability - 1) > 1e-9) {
+    throw new Error('Win probabilities should add up to 1')
+  }
+
+  const level = buildFairnessReport(even.slice(0, 2), even.slice(2, 4))
+  if (level.team1WinProbability !== 0.5) throw new Error('Identical sides should be 50/50')
+
+  // Substitutes don't count, and positions nobody covers on one side are flagged
+  const keeper = { id: 30, name: 'Keeper', rating: 70, position: 'GK' as Position }
+  const withSub = buildFairnessReport([keeper, ...even.slice(0, 2)], even.slice(2, 5), 11)
+  if (withSub.team1.playerCount !== 2 || withSub.team1.positions.GK !== 1) {
+    throw new Error('The substitute should be left out of the report')
+  }
+  const [uncovered] = withSub.uncoveredPositions
+  if (uncovered?.position !== 'GK' || uncovered.missingFrom !== 2) {
+    throw new Error('Team B having no goalkeeper should be flagged')
+  }
+
+  // N v N+1: the short side plays its missing slot at its average minus the handicap, so
+  // sides level on effective strength are 50/50 however far apart their totals are
+  const short = makePlayers([70, 70])
+  const long = makePlayers([60, 60, 60]).map((p) => ({ ...p, id: p.id + 10 }))
+  if (effectiveStrength(short, long, 30) !== effectiveStrength(long, short, 30)) {
+    throw new Error('Expected the uneven sides to be level on effective strength')
+  }
+  const uneven = buildFairnessReport(short, long, undefined, 30)
+  if (uneven.team1WinProbability !== 0.5) {
+    throw new Error(`Level uneven sides should be 50/50, got ${uneven.team1WinProbability}`)
+  }
+  // A smaller handicap leaves the short side stronger
+  if (buildFairnessReport(short, long, undefined, 5).team1WinProbability <= 0.5) {
+    throw new Error('The short side should be favoured with a small handicap')
+  }
+}
+
+function main() {
+  testFairnessReport()
+  console.log('fairnessReport tests passed')
+}
+
+main()
@@ -0,0 +1,59 @@
+import { scheduledOccurrences, zonedDateTime, type FixtureSchedule } from '../fixtureSchedule'
+
+// Pure, DB-free checks for recurring fixture schedules.
+// Run with: npm run test:fixture-schedule
+
+function testFixtureSchedule() {
+  const iso = (dates: Date[]) => dates.map((d) => d.toISOString().slice(0, 16)).join(',')
+  // Tuesdays at 19:00 in London, across the clocks going forward on 29 March 2026
+  const schedule: FixtureSchedule = {
+    frequency: 'WEEKLY',
+    weekday: 2,
+    time: '19:00',
+    timeZone: 'Europe/London',
+    playersPerSide: 5,
+    venue: null,
+    cost: null,
+    startDate: '2026-03-12',
+  }
+  const from = new Date('2026-03-18T00:00:00Z')
+  const until = new Date('2026-04-08T00:00:00Z')
+  if (
+    iso(scheduledOccurrences(schedule, from, until)) !==
+    '2026-03-24T19:00,2026-03-31T18:00,2026-04-07T18:00'
+  ) {
+    throw new Error(
+      `Unexpected weekly occurrences: ${iso(scheduledOccurrences(schedule, from, until))}`,
+    )
+  }
+
+  // Fortnights count from the first Tuesday on or after the start date (17 March)
+  const fortnightly = { ...schedule, frequency: 'FORTNIGHTLY' as const }
+  if (iso(scheduledOccurrences(fortnightly, from, until)) !== '2026-03-31T18:00') {
+    throw new Error('A fortnightly schedule should skip every other week')
+  }
+  if (scheduledOccurrences({ ...schedule, startDate: '2026-04-08' }, from, until).length) {
+    throw new Error('Nothing should be scheduled before the start date')
+  }
+
+  // 01:30 doesn't exist on the night the clocks go forward
+  if (
+    zonedDateTime('2026-03-29', '01:30', 'Europe/London').toISOString() !==
+    '2026-03-29T01:30:00.000Z'
+  ) {
+    throw new Error('A skipped wall-clock time should come out an hour later')
+  }
+  if (
+    zonedDateTime('2026-07-01', '19:00', 'America/New_York').toISOString() !==
+    '2026-07-01T23:00:00.000Z'
+  ) {
+    throw new Error('Kick-off should follow the time zone west of UTC too')
+  }
+}
+
+function main() {
+  testFixtureSchedule()
+  console.log('fixtureSchedule tests passed')
+}
+
+main()
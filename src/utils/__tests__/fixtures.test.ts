@@ -0,0 +1,101 @@
+import {
+  confirmedPlayerIds,
+  countResponses,
+  isUpcoming,
+  planRsvpChange,
+  waitlist,
+  waitlistPromotions,
+} from '../fixtures'
+
+// Pure, DB-free checks for fixture answers and the waitlist.
+// Run with: npm run test:fixtures
+
+function testFixtureResponses() {
+  const responses = [
+    { playerId: 1, status: 'IN' as const },
+    { playerId: 2, status: 'MAYBE' as const },
+    { playerId: 3, status: 'IN' as const },
+    { playerId: 4, status: 'OUT' as const },
+    // Has since left the squad
+    { playerId: 9, status: 'IN' as const },
+  ]
+  const counts = countResponses([1, 2, 3, 4, 5, 6], responses)
+  if (counts.in !== 3 || counts.maybe !== 1 || counts.out !== 1 || counts.noResponse !== 2) {
+    throw new Error(`Unexpected RSVP counts ${JSON.stringify(counts)}`)
+  }
+  if (confirmedPlayerIds(responses).join(',') !== '1,3,9') {
+    throw new Error('Only players who said they are in should be pre-selected')
+  }
+
+  const now = new Date('2026-03-17T21:00:00Z')
+  if (!isUpcoming('2026-03-17T19:00:00Z', now) || isUpcoming('2026-03-17T17:00:00Z', now)) {
+    throw new Error('A fixture should stay upcoming for a few hours after kick-off')
+  }
+}
+
+function testFixtureWaitlist() {
+  const at = (minute: number) => new Date(Date.UTC(2026, 2, 16, 12, minute))
+  // Two places, both taken; 4 joined the waitlist before 3
+  const responses = [
+    { playerId: 1, status: 'IN' as const, updatedAt: at(0) },
+    { playerId: 2, status: 'IN' as const, updatedAt: at(1) },
+    { playerId: 3, status: 'WAITLIST' as const, updatedAt: at(5) },
+    { playerId: 4, status: 'WAITLIST' as const, updatedAt: at(3) },
+    { playerId: 5, status: 'MAYBE' as const, updatedAt: at(2) },
+  ]
+  if (
+    waitlist(responses)
+      .map((r) => r.playerId)
+      .join(',') !== '4,3'
+  ) {
+    throw new Error('The waitlist should be in the order players joined it')
+  }
+  if (countResponses([1, 2, 3, 4, 5], responses).waitlist !== 2) {
+    throw new Error('Waiting players should be counted separately')
+  }
+
+  const joining = planRsvpChange(responses, 2, 5, 'IN', at(10))
+  if (joining.length !== 1 || joining[0]!.status !== 'WAITLIST' || joining[0]!.promoted) {
+    throw new Error('Saying in when the fixture is full should join the waitlist')
+  }
+  if (planRsvpChange(responses, 2, 3, 'IN', at(10)).length !== 0) {
+    throw new Error('Asking again should keep a waitlist place')
+  }
+
+  const dropout = planRsvpChange(responses, 2, 1, 'OUT', at(10))
+  if (
+    JSON.stringify(dropout) !==
+    JSON.stringify([
+      { playerId: 1, status: 'OUT', promoted: false },
+      { playerId: 4, status: 'IN', promoted: true },
+    ])
+  ) {
+    throw new Error(
+      `Unexpected changes when a confirmed player drops out: ${JSON.stringify(dropout)}`,
+    )
+  }
+  // Leaving the waitlist frees nothing up
+  const leaving = planRsvpChange(responses, 2, 4, null, at(10))
+  if (leaving.length !== 1 || leaving[0]!.status !== null) {
+    throw new Error('Leaving the waitlist should only clear that answer')
+  }
+
+  if (
+    waitlistPromotions(responses, 3)
+      .map((c) => c.playerId)
+      .join(',') !== '4'
+  ) {
+    throw new Error('One more place should promote the first player waiting')
+  }
+  if (waitlistPromotions(responses, null).length !== 2 || waitlistPromotions(responses, 1).length) {
+    throw new Error('No limit should promote everyone waiting, a lower one nobody')
+  }
+}
+
+function main() {
+  testFixtureResponses()
+  testFixtureWaitlist()
+  console.log('fixtures tests passed')
+}
+
+main()
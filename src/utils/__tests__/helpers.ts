@@ -0,0 +1,8 @@
+import type { Player } from '../teamPairing'
+
+/**
+ * Players 1, 2, 3... with the given ratings, for the checks in this folder
+ */
+export function makePlayers(ratings: number[]): Player[] {
+  return ratings.map((rating, index) => ({ id: index + 1, name: `Player ${index + 1}`, rating }))
+}
@@ -0,0 +1,64 @@
+import { calculateLeagueTable, currentSeason, toDateString } from '../leagueTable'
+
+// Pure, DB-free checks for the season league table.
+// Run with: npm run test:league-table
+
+function testLeagueTable() {
+  const lineup = (team1: number[], team2: number[]) => [
+    ...team1.map((id) => ({ playerId: id, side: 1 })),
+    ...team2.map((id) => ({ playerId: id, side: 2 })),
+  ]
+  const matches = [
+    { team1Score: 3, team2Score: 1, players: lineup([1, 2], [3, 4]) },
+    { team1Score: 2, team2Score: 2, players: lineup([1, 3], [2, 4]) },
+    { team1Score: 0, team2Score: 1, players: lineup([1, 4], [2, 3]) },
+    // No result yet: doesn't count
+    { team1Score: null, team2Score: null, players: lineup([1], [5]) },
+    { team1Score: 1, team2Score: 0, players: lineup([5], [4]) },
+  ]
+
+  const table = calculateLeagueTable(matches, 2)
+  const order = table.map((row) => row.playerId).join(',')
+  // 2: W D W = 7 pts; 3: L D W = 4 pts, GD 0; 1: W D L = 4 pts, GD +1; 4: 1 pt; 5: 3 pts but 1 game
+  if (order !== '2,1,3,4,5') {
+    throw new Error(`Unexpected league order ${order}`)
+  }
+  const [top] = table
+  if (top?.points !== 7 || top.goalsFor !== 6 || top.goalsAgainst !== 3 || top.position !== 1) {
+    throw new Error(`Unexpected top row ${JSON.stringify(top)}`)
+  }
+  const last = table[table.length - 1]!
+  if (last.qualified || last.appearances !== 1 || last.points !== 3 || last.position !== 5) {
+    throw new Error('A player short of the minimum appearances should be listed last')
+  }
+
+  // Level on points and goal difference: more appearances ranks higher
+  const tied = calculateLeagueTable([
+    { team1Score: 1, team2Score: 1, players: lineup([1], [2]) },
+    { team1Score: 0, team2Score: 0, players: lineup([2], [3]) },
+  ])
+  if (tied.map((row) => row.playerId).join(',') !== '2,1,3' || !tied.every((r) => r.qualified)) {
+    throw new Error('Ties on points and goal difference should go to appearances')
+  }
+
+  const seasons = [
+    { startDate: '2026-01-05', endDate: '2026-03-29' },
+    { startDate: '2026-04-06', endDate: '2026-06-28' },
+  ]
+  if (currentSeason(seasons, '2026-03-29') !== seasons[0]) {
+    throw new Error("A season's last day should still be part of it")
+  }
+  if (currentSeason(seasons, '2026-04-01') !== null) {
+    throw new Error('Dates between seasons have no current season')
+  }
+  if (toDateString(new Date(2026, 0, 5)) !== '2026-01-05') {
+    throw new Error('Dates should format as YYYY-MM-DD')
+  }
+}
+
+function main() {
+  testLeagueTable()
+  console.log('leagueTable tests passed')
+}
+
+main()
@@ -0,0 +1,52 @@
+import { buildLedger, playerBalances, splitCost } from '../ledger'
+
+// Pure, DB-free checks for fixture fees and balances.
+// Run with: npm run test:ledger
+
+function testFeeLedger() {
+  if (
+    splitCost(1000, [3, 1, 2])
+      .map((s) => `${s.playerId}:${s.amount}`)
+      .join(',') !== '1:334,2:333,3:333'
+  ) {
+    throw new Error('A cost should split to within a penny, odd pennies to the lowest IDs')
+  }
+  if (splitCost(1000, []).length !== 0) {
+    throw new Error('Nobody in should mean nobody pays')
+  }
+
+  const day = (date: number) => new Date(Date.UTC(2026, 3, date, 19))
+  // Fees are the shares saved at each kick-off
+  const fees = [
+    ...splitCost(6000, [1, 2, 3]).map((s) => ({ ...s, fixtureId: 1, startsAt: day(7) })),
+    ...splitCost(4000, [1, 2]).map((s) => ({ ...s, fixtureId: 2, startsAt: day(14) })),
+  ]
+  const payments = [
+    { id: 1, playerId: 1, amount: 5000, paidAt: day(7), note: 'Cash' },
+    { id: 2, playerId: 3, amount: 2000, paidAt: day(8), note: null },
+  ]
+
+  const ledger = buildLedger(fees, payments).filter((e) => e.playerId === 1)
+  if (
+    ledger.map((e) => `${e.kind}:${e.amount}:${e.balance}`).join(',') !==
+    'FEE:-2000:-2000,PAYMENT:5000:3000,FEE:-2000:1000'
+  ) {
+    throw new Error(`Unexpected ledger: ${JSON.stringify(ledger)}`)
+  }
+
+  // Player 4 is in the squad but hasn't played or paid
+  const balances = playerBalances(fees, payments, [1, 2, 3, 4])
+  if (
+    balances.map((b) => `${b.playerId}:${b.charged}:${b.paid}:${b.balance}`).join(',') !==
+    '2:4000:0:-4000,3:2000:2000:0,4:0:0:0,1:4000:5000:1000'
+  ) {
+    throw new Error(`Unexpected balances: ${JSON.stringify(balances)}`)
+  }
+}
+
+function main() {
+  testFeeLedger()
+  console.log('ledger tests passed')
+}
+
+main()
@@ -0,0 +1,41 @@
+import { goalsFromEvents, type MatchEvent, type MatchPlayer } from '../matches'
+
+// Pure, DB-free checks for saved match results.
+// Run with: npm run test:matches
+
+function testMatchGoalTally() {
+  const players: MatchPlayer[] = [1, 2, 3, 4].map((id) => ({
+    playerId: id,
+    side: id <= 2 ? 1 : 2,
+    isSubstitute: false,
+    player: { id, name: `Player ${id}`, rating: 50 },
+  }))
+  const event = (id: number, playerId: number, type: MatchEvent['type']): MatchEvent => ({
+    id,
+    playerId,
+    type,
+    minute: null,
+  })
+  const events = [
+    event(1, 1, 'GOAL'),
+    event(2, 2, 'ASSIST'),
+    event(3, 3, 'GOAL'),
+    event(4, 4, 'OWN_GOAL'),
+    event(5, 1, 'GOAL'),
+    event(6, 9, 'GOAL'),
+  ]
+
+  const [team1, team2] = goalsFromEvents({ players, events })
+  if (team1 !== 3 || team2 !== 1) {
+    throw new Error(
+      `Expected 3-1 (own goal for side 1, unknown scorer skipped), got ${team1}-${team2}`,
+    )
+  }
+}
+
+function main() {
+  testMatchGoalTally()
+  console.log('matches tests passed')
+}
+
+main()
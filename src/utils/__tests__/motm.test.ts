@@ -0,0 +1,59 @@
+import { isMotmOpen, motmWinner, tallyMotmVotes, validateMotmVote } from '../motm'
+
+// Pure, DB-free checks for man-of-the-match voting.
+// Run with: npm run test:motm
+
+function testMotmVoting() {
+  const at = (minute: number) => new Date(Date.UTC(2026, 3, 18, 20, minute))
+  // 2 and 3 both get two votes; 3 got there first
+  const ballots = [
+    { voterId: 1, playerId: 3, createdAt: at(1) },
+    { voterId: 4, playerId: 2, createdAt: at(2) },
+    { voterId: 5, playerId: 3, createdAt: at(3) },
+    { voterId: 6, playerId: 2, createdAt: at(4) },
+    { voterId: 2, playerId: 1, createdAt: at(5) },
+  ]
+  const tally = tallyMotmVotes(ballots)
+  if (tally.map((c) => `${c.playerId}:${c.votes}`).join(' ') !== '3:2 2:2 1:1') {
+    throw new Error(`Unexpected MOTM tally ${JSON.stringify(tally)}`)
+  }
+  if (motmWinner([...ballots].reverse()) !== 3 || motmWinner([]) !== null) {
+    throw new Error('A tie should go to whoever reached the votes first')
+  }
+
+  const kickOff = at(0)
+  if (
+    isMotmOpen(kickOff, 48, new Date(kickOff.getTime() - 1)) ||
+    !isMotmOpen(kickOff, 48, at(30)) ||
+    isMotmOpen(kickOff, 48, new Date(kickOff.getTime() + 48 * 3_600_000))
+  ) {
+    throw new Error('Voting should be open from kick-off for the window only')
+  }
+
+  validateMotmVote(1, 2, [1, 2, 3], [3])
+  // A repeat vote, a self-vote, a voter who didn't play and a pick who didn't either
+  const invalid: Array<[number, number]> = [
+    [3, 2],
+    [1, 1],
+    [4, 2],
+    [1, 4],
+  ]
+  for (const [voterId, playerId] of invalid) {
+    let threw = false
+    try {
+      validateMotmVote(voterId, playerId, [1, 2, 3], [3])
+    } catch {
+      threw = true
+    }
+    if (!threw) {
+      throw new Error(`Vote should be rejected: ${JSON.stringify({ voterId, playerId })}`)
+    }
+  }
+}
+
+function main() {
+  testMotmVoting()
+  console.log('motm tests passed')
+}
+
+main()
@@ -0,0 +1,89 @@
+import type { PairingConstraint } from '../pairingConstraints'
+import {
+  formatConstraints,
+  pairingLinkQuery,
+  parseConstraints,
+  parsePairingLink,
+} from '../pairingLink'
+
+// Pure, DB-free checks for shared pairing links.
+// Run with: npm run test:pairing-link
+
+function testPairingLinkRoundTrip() {
+  const query = pairingLinkQuery({
+    run: 'mix',
+    playerIds: [4, 9, 12, 30],
+    seed: 123456,
+    settings: { size: '5', freshness: 'low' },
+  })
+  if (query.run !== 'mix' || query.players !== '4,9,12,30' || query.seed !== '123456') {
+    throw new Error(`Unexpected link query: ${JSON.stringify(query)}`)
+  }
+
+  // Only the view's own settings are picked up, and other query values are ignored
+  const shared = parsePairingLink({ ...query, fixture: '7' }, ['size', 'handicap'])
+  if (
+    !shared ||
+    shared.run !== 'mix' ||
+    shared.playerIds.join(',') !== '4,9,12,30' ||
+    shared.seed !== 123456 ||
+    JSON.stringify(shared.settings) !== '{"size":"5"}'
+  ) {
+    throw new Error(`Link did not round-trip: ${JSON.stringify(shared)}`)
+  }
+
+  // Uneven sides have no seed to share
+  const unseeded = pairingLinkQuery({
+    run: 'balanced',
+    playerIds: [1, 2, 3],
+    seed: null,
+    settings: {},
+  })
+  if ('seed' in unseeded || parsePairingLink(unseeded, [])?.seed !== null) {
+    throw new Error('A link without a seed should stay without one')
+  }
+}
+
+function testPairingLinkRejectsPartialLinks() {
+  const cases: Record<string, unknown>[] = [
+    { seed: '42' },
+    { run: 'balanced', seed: '42' },
+    { run: 'sideways', players: '1,2' },
+    { run: 'balanced', players: '1' },
+    { run: 'balanced', players: '1,x,3' },
+    { run: 'balanced', players: ['1,2'] },
+  ]
+  for (const query of cases) {
+    if (parsePairingLink(query, []) !== null) {
+      throw new Error(`Should not read a link from ${JSON.stringify(query)}`)
+    }
+  }
+}
+
+function testConstraintsRoundTrip() {
+  const constraints: PairingConstraint[] = [
+    { type: 'TOGETHER', playerId: 1, otherPlayerId: 2 },
+    { type: 'APART', playerId: 3, otherPlayerId: 4 },
+    { type: 'LOCKED', playerId: 5, side: 2 },
+  ]
+  const value = formatConstraints(constraints)
+  if (value !== 'T1-2.A3-4.L5-2') throw new Error(`Unexpected rules value: ${value}`)
+  if (JSON.stringify(parseConstraints(value)) !== JSON.stringify(constraints)) {
+    throw new Error(`Rules did not round-trip: ${JSON.stringify(parseConstraints(value))}`)
+  }
+
+  // Malformed parts and sides other than 1 or 2 are dropped
+  const parsed = parseConstraints('T1-2.X3-4.L5-3.A6')
+  if (parsed.length !== 1 || parsed[0].type !== 'TOGETHER') {
+    throw new Error(`Malformed rules should be skipped: ${JSON.stringify(parsed)}`)
+  }
+}
+
+function main() {
+  testPairingLinkRoundTrip()
+  testPairingLinkRejectsPartialLinks()
+  testConstraintsRoundTrip()
+  console.log('pairingLink tests passed')
+}
+
+main()
@@ -0,0 +1,61 @@
+import { summarizePeerRatings, trimmedMean, validatePeerVotes } from '../peerRatings'
+
+// Pure, DB-free checks for peer ratings.
+// Run with: npm run test:peer-ratings
+
+function testPeerRatings() {
+  // A grudge 1 and a mate's 10 are trimmed away
+  if (trimmedMean([7, 1, 6, 10, 7]) !== 20 / 3) {
+    throw new Error('The highest and lowest votes should be dropped')
+  }
+  if (trimmedMean([4, 8]) !== 6 || trimmedMean([]) !== null) {
+    throw new Error('Too few votes to trim should keep them all')
+  }
+
+  const votes = [7, 1, 6, 10, 7].map((score, index) => ({ matchId: index % 2, score }))
+  const summary = summarizePeerRatings(votes)
+  if (
+    summary.votes !== 5 ||
+    summary.matches !== 2 ||
+    summary.average !== 6.7 ||
+    summary.suggestedRating !== 67
+  ) {
+    throw new Error(`Unexpected peer rating summary: ${JSON.stringify(summary)}`)
+  }
+  if (summarizePeerRatings(votes.slice(0, 4)).suggestedRating !== null) {
+    throw new Error('Fewer than the minimum votes should suggest nothing')
+  }
+
+  validatePeerVotes(
+    1,
+    [1, 2, 3],
+    [
+      { playerId: 2, score: 8 },
+      { playerId: 3, score: 5 },
+    ],
+  )
+  // A self-vote, a voter who didn't play, and a score off the scale
+  const invalid: Array<[number, Array<{ playerId: number; score: number }>]> = [
+    [1, [{ playerId: 1, score: 10 }]],
+    [4, [{ playerId: 1, score: 5 }]],
+    [1, [{ playerId: 2, score: 11 }]],
+  ]
+  for (const [raterId, ballot] of invalid) {
+    let threw = false
+    try {
+      validatePeerVotes(raterId, [1, 2, 3], ballot)
+    } catch {
+      threw = true
+    }
+    if (!threw) {
+      throw new Error(`Votes should be rejected: ${JSON.stringify({ raterId, ballot })}`)
+    }
+  }
+}
+
+function main() {
+  testPeerRatings()
+  console.log('peerRatings tests passed')
+}
+
+main()
@@ -0,0 +1,21 @@
+import { calculateOverallRating } from '../playerRatings'
+
+// Pure, DB-free checks for overall ratings from attribute scores.
+// Run with: npm run test:player-ratings
+
+function testOverallRating() {
+  const overall = calculateOverallRating([
+    { weight: 2, value: 90 },
+    { weight: 1, value: 60 },
+    { weight: 0, value: 1 },
+  ])
+  if (overall !== 80) throw new Error(`Weighted overall was ${overall}, expected 80`)
+  if (calculateOverallRating([]) !== null) throw new Error('No scores should give no overall')
+}
+
+function main() {
+  testOverallRating()
+  console.log('playerRatings tests passed')
+}
+
+main()
@@ -0,0 +1,63 @@
+import { calculatePlayerStats } from '../playerStats'
+
+// Pure, DB-free checks for player stats.
+// Run with: npm run test:player-stats
+
+function testPlayerStats() {
+  const lineup = (team1: number[], team2: number[]) => [
+    ...team1.map((id) => ({ playerId: id, side: 1, rating: id * 10 })),
+    ...team2.map((id) => ({ playerId: id, side: 2, rating: id * 10 })),
+  ]
+  const matches = [
+    {
+      team1Score: 3,
+      team2Score: 1,
+      players: lineup([1, 2], [3, 4]),
+      events: [
+        { playerId: 1, type: 'GOAL' },
+        { playerId: 1, type: 'GOAL' },
+        { playerId: 2, type: 'ASSIST' },
+      ],
+    },
+    { team1Score: 0, team2Score: 0, players: lineup([3, 1], [2, 4]), events: [], motmPlayerId: 1 },
+    { team1Score: 2, team2Score: 0, players: lineup([4], [1, 2]), events: [] },
+    // No result yet: an appearance, but not a win, draw or loss
+    { team1Score: null, team2Score: null, players: lineup([1, 2], [3]), events: [] },
+    { team1Score: 1, team2Score: 0, players: lineup([3], [4]), events: [], motmPlayerId: 3 },
+  ]
+
+  const stats = calculatePlayerStats(1, matches)
+  if (stats.appearances !== 4 || stats.wins !== 1 || stats.draws !== 1 || stats.losses !== 1) {
+    throw new Error(`Unexpected record ${JSON.stringify(stats)}`)
+  }
+  if (stats.winRate !== 0.333 || stats.goals !== 2 || stats.assists !== 0) {
+    throw new Error('Win rate and goals should only count player 1')
+  }
+  if (stats.motmAwards !== 1) {
+    throw new Error(`Player 1 should have one MOTM award, not ${stats.motmAwards}`)
+  }
+  // Teammates: 2, 3, 2, 2 -> ratings 20, 30, 20, 20
+  if (stats.averageTeammateRating !== 22.5) {
+    throw new Error(`Unexpected average teammate rating ${stats.averageTeammateRating}`)
+  }
+  const [top] = stats.frequentTeammates
+  if (top?.playerId !== 2 || top.matches !== 3 || stats.frequentTeammates.length !== 2) {
+    throw new Error('Player 2 should be the most frequent teammate')
+  }
+
+  const unused = calculatePlayerStats(9, matches)
+  if (
+    unused.appearances !== 0 ||
+    unused.winRate !== null ||
+    unused.averageTeammateRating !== null
+  ) {
+    throw new Error('A player with no matches should have empty stats')
+  }
+}
+
+function main() {
+  testPlayerStats()
+  console.log('playerStats tests passed')
+}
+
+main()
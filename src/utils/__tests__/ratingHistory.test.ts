@@ -0,0 +1,30 @@
+import { chartPoints, ratingSeries } from '../ratingHistory'
+
+// Pure, DB-free checks for the rating history chart.
+// Run with: npm run test:rating-history
+
+function testRatingSeries() {
+  const history = [
+    { id: 1, oldRating: 60, newRating: 64, createdAt: '2026-01-01T00:00:00.000Z' },
+    { id: 2, oldRating: 64, newRating: 62, createdAt: '2026-01-08T00:00:00.000Z' },
+  ]
+  const values = ratingSeries(history)
+  if (values.join(',') !== '60,64,62') {
+    throw new Error(`Series should start at the first old rating, got ${values.join(',')}`)
+  }
+
+  // Lowest value on the bottom edge, highest on the top
+  if (chartPoints(values, 100, 20) !== '0,20 50,0 100,10') {
+    throw new Error(`Unexpected chart points ${chartPoints(values, 100, 20)}`)
+  }
+  if (chartPoints([70, 70], 100, 20) !== '0,10 100,10') {
+    throw new Error('A flat history should be drawn halfway up')
+  }
+}
+
+function main() {
+  testRatingSeries()
+  console.log('ratingHistory tests passed')
+}
+
+main()
@@ -0,0 +1,45 @@
+import { buildRotationSchedule } from '../rotationSchedule'
+import { makePlayers } from './helpers'
+
+// Pure, DB-free checks for substitute rotation schedules.
+// Run with: npm run test:rotation-schedule
+
+function testRotationSchedule() {
+  const team1 = makePlayers([80, 72, 65, 60, 55, 50, 45])
+  const team2 = makePlayers([78, 70, 66, 61, 54, 49, 47, 40]).map((p) => ({ ...p, id: p.id + 100 }))
+  const schedule = buildRotationSchedule(team1, team2, {
+    matchLength: 60,
+    interval: 10,
+    playersOnPitch: 5,
+  })
+
+  if (schedule.periods.length !== 6) throw new Error('60 minutes every 10 should be 6 periods')
+  for (const period of schedule.periods) {
+    if (period.team1OnPitch.length !== 5 || period.team2OnPitch.length !== 5) {
+      throw new Error('Each side should always have 5 on the pitch')
+    }
+  }
+  for (const side of [team1, team2]) {
+    const minutes = side.map((p) => schedule.minutesPlayed[p.id]!)
+    if (Math.max(...minutes) - Math.min(...minutes) > 10) {
+      throw new Error(`Playing time ${minutes.join('/')} should differ by at most one rotation`)
+    }
+  }
+  if (schedule.maxRatingDifference > 15) {
+    throw new Error(`Rating gap reached ${schedule.maxRatingDifference} in some period`)
+  }
+
+  const uneven = buildRotationSchedule(team1, team2, { matchLength: 50, interval: 15 })
+  const lastPeriod = uneven.periods[uneven.periods.length - 1]!
+  if (lastPeriod.start !== 45 || lastPeriod.end !== 50) {
+    throw new Error('The last period should be cut short at the final whistle')
+  }
+  if (uneven.playersOnPitch !== 7) throw new Error('Should default to the smaller side playing')
+}
+
+function main() {
+  testRotationSchedule()
+  console.log('rotationSchedule tests passed')
+}
+
+main()
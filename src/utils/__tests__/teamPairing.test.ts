@@ -0,0 +1,388 @@
+import {
+  balanceIntoTeams,
+  balanceTeams,
+  balanceTeamsExact,
+  balanceUnevenTeams,
+  createMultipleTeamPairs,
+  effectiveStrength,
+  findBestTeamBalance,
+  findRandomizedTeamBalance,
+  type Player,
+  type Position,
+  type TeamPair,
+} from '../teamPairing'
+import type { PairingConstraint } from '../pairingConstraints'
+import { countRepeatedTeammates } from '../pairingHistory'
+import { createSeededRandom, type RandomSource } from '../seededRandom'
+import { makePlayers } from './helpers'
+
+// Pure, DB-free checks for the pairing algorithms.
+// Run with: npm run test:pairing
+
+// Generated squads come from a fixed seed, so a failing run can be replayed exactly
+function randomRatings(count: number, random: RandomSource): number[] {
+  return Array.from({ length: count }, () => 40 + Math.floor(random() * 60))
+}
+
+// Brute-force the smallest on-pitch rating difference for an even squad
+function bruteForceBestDifference(ratings: number[]): number {
+  const half = ratings.length / 2
+  const total = ratings.reduce((sum, r) => sum + r, 0)
+  let best = Infinity
+  for (let mask = 0; mask < 1 << ratings.length; mask++) {
+    let count = 0
+    let sum = 0
+    for (let i = 0; i < ratings.length; i++) {
+      if (mask & (1 << i)) {
+        count++
+        sum += ratings[i]!
+      }
+    }
+    if (count === half) best = Math.min(best, Math.abs(total - 2 * sum))
+  }
+  return best
+}
+
+// Brute-force the smallest spread between team totals over every k-way split
+// with team sizes within one of each other
+function bruteForceBestSpread(ratings: number[], teamCount: number): number {
+  const baseSize = Math.floor(ratings.length / teamCount)
+  const sizes: number[] = Array.from({ length: teamCount }, () => 0)
+  const totals: number[] = Array.from({ length: teamCount }, () => 0)
+  let best = Infinity
+
+  const place = (index: number) => {
+    if (index === ratings.length) {
+      if (sizes.every((size) => size >= baseSize)) {
+        best = Math.min(best, Math.max(...totals) - Math.min(...totals))
+      }
+      return
+    }
+    for (let t = 0; t < teamCount; t++) {
+      if (sizes[t]! > baseSize) continue
+      sizes[t]!++
+      totals[t]! += ratings[index]!
+      place(index + 1)
+      sizes[t]!--
+      totals[t]! -= ratings[index]!
+      if (sizes[t] === 0) break // Empty teams are interchangeable
+    }
+  }
+  place(0)
+  return best
+}
+
+function testExactMatchesBruteForce() {
+  // Greedy gets this one wrong: it finishes 20 apart when 90+70+25 splits perfectly
+  const ratings = [90, 80, 70, 60, 45, 25]
+  const exact = balanceTeamsExact(makePlayers(ratings))
+  const expected = bruteForceBestDifference(ratings)
+
+  if (exact.ratingDifference !== expected) {
+    throw new Error(`Exact solver found ${exact.ratingDifference}, expected ${expected}`)
+  }
+  if (!exact.isOptimal) {
+    throw new Error('Exact solver result should be flagged as optimal')
+  }
+  if (exact.team1.length !== exact.team2.length) {
+    throw new Error('Exact solver should produce equal-size sides')
+  }
+  if (balanceTeams(makePlayers(ratings)).isOptimal) {
+    throw new Error('Greedy result should not be flagged as optimal')
+  }
+}
+
+function testRandomSquads() {
+  const random = createSeededRandom(1)
+  for (let round = 0; round < 25; round++) {
+    const size = 2 * (2 + (round % 6))
+    const ratings = randomRatings(size, random)
+    const exact = balanceTeamsExact(makePlayers(ratings))
+    const expected = bruteForceBestDifference(ratings)
+    if (exact.ratingDifference !== expected) {
+      throw new Error(
+        `Ratings ${ratings.join(',')}: got ${exact.ratingDifference}, expected ${expected}`,
+      )
+    }
+  }
+}
+
+function testOddSquadKeepsSubstitute() {
+  const result = balanceTeamsExact(makePlayers([88, 84, 80, 75, 70, 66, 61]))
+  if (!result.substituteInfo) {
+    throw new Error('Odd squads should still get a substitute pairing')
+  }
+  if (result.team1.length + result.team2.length !== 7) {
+    throw new Error('Every player should be placed on a side')
+  }
+}
+
+function testFallbackAboveThreshold() {
+  const players = makePlayers([70, 71, 72, 73, 74, 75, 76, 77])
+  const exact = findBestTeamBalance(players)
+  const fallback = findBestTeamBalance(players, 20, { exactThreshold: 6 })
+  const heuristic = findBestTeamBalance(players, 20, { mode: 'heuristic' })
+
+  if (!exact.isOptimal) throw new Error('Small squads should use the exact solver by default')
+  if (fallback.isOptimal) throw new Error('Squads above the threshold should use the heuristic')
+  if (heuristic.isOptimal) throw new Error('Heuristic mode should never claim optimality')
+}
+
+function testPositionsAreSpread() {
+  const positions: Position[] = ['GK', 'GK', 'DEF', 'DEF', 'DEF', 'DEF', 'MID', 'MID', 'FWD', 'FWD']
+  // Both keepers are the top-rated players, so a rating-only split would happily pair them
+  const ratings = [95, 94, 60, 58, 57, 55, 70, 68, 80, 40]
+  const players = makePlayers(ratings).map((p, i) => ({ ...p, position: positions[i] }))
+
+  for (const result of [balanceTeamsExact(players), balanceTeams(players)]) {
+    for (const position of ['GK', 'DEF', 'MID', 'FWD'] as Position[]) {
+      const count1 = result.team1.filter((p) => p.position === position).length
+      const count2 = result.team2.filter((p) => p.position === position).length
+      if (Math.abs(count1 - count2) > 1) {
+        throw new Error(`${position} split ${count1}-${count2}, expected an even spread`)
+      }
+    }
+  }
+}
+
+function testConstraintsAreHonoured() {
+  const players = makePlayers([90, 85, 80, 75, 70, 65, 60, 55, 50, 45])
+  const constraints: PairingConstraint[] = [
+    { type: 'TOGETHER', playerId: 1, otherPlayerId: 2 },
+    { type: 'APART', playerId: 3, otherPlayerId: 4 },
+    { type: 'LOCKED', playerId: 5, side: 2 },
+  ]
+  const sideOf = (pair: { team1: Player[] }, id: number) =>
+    pair.team1.some((p) => p.id === id) ? 1 : 2
+
+  const results = [
+    findBestTeamBalance(players, 20, { constraints }),
+    findBestTeamBalance(players, 20, { constraints, mode: 'heuristic' }),
+    ...createMultipleTeamPairs(players, 1, { constraints }),
+  ]
+  for (const result of results) {
+    if (sideOf(result, 1) !== sideOf(result, 2)) throw new Error('Together pair was split')
+    if (sideOf(result, 3) === sideOf(result, 4)) throw new Error('Apart pair shared a side')
+    if (sideOf(result, 5) !== 2) throw new Error('Locked player was not on side 2')
+    if (result.team1.length !== result.team2.length) throw new Error('Sides should be equal')
+  }
+}
+
+function testInfeasibleConstraintsThrow() {
+  const players = makePlayers([80, 70, 60, 50])
+  const contradictions: PairingConstraint[][] = [
+    [
+      { type: 'TOGETHER', playerId: 1, otherPlayerId: 2 },
+      { type: 'APART', playerId: 1, otherPlayerId: 2 },
+    ],
+    [
+      { type: 'APART', playerId: 1, otherPlayerId: 2 },
+      { type: 'APART', playerId: 2, otherPlayerId: 3 },
+      { type: 'APART', playerId: 1, otherPlayerId: 3 },
+    ],
+    [
+      { type: 'TOGETHER', playerId: 1, otherPlayerId: 2 },
+      { type: 'TOGETHER', playerId: 2, otherPlayerId: 3 },
+    ],
+  ]
+
+  for (const constraints of contradictions) {
+    for (const mode of ['exact', 'heuristic'] as const) {
+      let threw = false
+      try {
+        findBestTeamBalance(players, 5, { constraints, mode })
+      } catch {
+        threw = true
+      }
+      if (!threw) throw new Error(`Expected ${mode} mode to reject ${JSON.stringify(constraints)}`)
+    }
+  }
+}
+
+function testAttributesAreBalanced() {
+  // Identical overall ratings, so only the attribute pass can separate the two fast players
+  const pace = [90, 88, 12, 10, 50, 50]
+  const players = makePlayers([60, 60, 60, 60, 60, 60]).map((p, i) => ({
+    ...p,
+    attributes: { pace: pace[i]!, passing: 60 },
+  }))
+
+  for (const result of [balanceTeamsExact(players), balanceTeams(players)]) {
+    const fast1 = result.team1.filter((p) => p.attributes!.pace! > 80).length
+    if (fast1 !== 1) throw new Error(`Fast players split ${fast1}-${2 - fast1}, expected 1-1`)
+    if ((result.attributeDifferences?.pace ?? Infinity) > 2) {
+      throw new Error(`Pace gap ${result.attributeDifferences?.pace}, expected at most 2`)
+    }
+  }
+
+  // Attribute swaps must never cost rating balance
+  const random = createSeededRandom(2)
+  for (let round = 0; round < 15; round++) {
+    const ratings = randomRatings(10, random)
+    const squad = makePlayers(ratings).map((p) => ({
+      ...p,
+      attributes: { pace: Math.floor(random() * 100) },
+    }))
+    const exact = balanceTeamsExact(squad, [], { pace: 2 })
+    if (exact.ratingDifference !== bruteForceBestDifference(ratings)) {
+      throw new Error(`Attribute balancing widened the rating gap for ${ratings.join(',')}`)
+    }
+  }
+}
+
+function testKWaySplit() {
+  const random = createSeededRandom(3)
+  for (let round = 0; round < 20; round++) {
+    const size = 7 + (round % 6)
+    const ratings = randomRatings(size, random)
+    const split = balanceIntoTeams(makePlayers(ratings), 3)
+
+    const sizes = split.teams.map((team) => team.length)
+    if (Math.max(...sizes) - Math.min(...sizes) > 1) {
+      throw new Error(`Team sizes ${sizes.join('/')} should differ by at most one`)
+    }
+    if (new Set(split.teams.flat().map((p) => p.id)).size !== size) {
+      throw new Error('Every player should be on exactly one team')
+    }
+    // Swap search with restarts rather than an exact solver, so allow a near miss
+    const expected = bruteForceBestSpread(ratings, 3)
+    if (split.ratingSpread > expected + 2) {
+      throw new Error(
+        `Ratings ${ratings.join(',')}: spread ${split.ratingSpread}, best ${expected}`,
+      )
+    }
+  }
+
+  const positions: Position[] = ['GK', 'GK', 'GK', 'DEF', 'DEF', 'DEF', 'MID', 'MID', 'MID']
+  const players = makePlayers([90, 50, 70, 80, 60, 40, 75, 65, 55]).map((p, i) => ({
+    ...p,
+    position: positions[i],
+  }))
+  for (const team of balanceIntoTeams(players, 3).teams) {
+    if (team.filter((p) => p.position === 'GK').length !== 1) {
+      throw new Error('Each of three teams should get one of the three keepers')
+    }
+  }
+}
+
+function testSeedsReproduceResults() {
+  const players = makePlayers(randomRatings(26, createSeededRandom(4)))
+  const sides = (pair: { team1: Player[]; team2: Player[] }) =>
+    [pair.team1, pair.team2].map((team) => team.map((p) => p.id).join(',')).join(' v ')
+
+  const mixed = findRandomizedTeamBalance(players, 7, 150, { seed: 12345 })
+  if (mixed.seed !== 12345) throw new Error('The seed used should be reported on the pair')
+  if (sides(findRandomizedTeamBalance(players, 7, 150, { seed: 12345 })) !== sides(mixed)) {
+    throw new Error('The same seed should give the same randomized pair')
+  }
+
+  const fresh = findRandomizedTeamBalance(players)
+  if (sides(findRandomizedTeamBalance(players, 5, 150, { seed: fresh.seed })) !== sides(fresh)) {
+    throw new Error('Passing back a generated seed should reproduce the pair')
+  }
+
+  const matches = (seed: number) =>
+    createMultipleTeamPairs(players.slice(0, 24), 2, { seed }).map(sides).join(' | ')
+  if (matches(7) !== matches(7)) throw new Error('The same seed should give the same matches')
+
+  const split = balanceIntoTeams(players, 4, { ratingVariation: 7, seed: 99 })
+  if (
+    JSON.stringify(balanceIntoTeams(players, 4, { ratingVariation: 7, seed: 99 })) !==
+    JSON.stringify(split)
+  ) {
+    throw new Error('The same seed should give the same k-way split')
+  }
+
+  // Every split of a level squad is optimal, so the seed decides between them
+  const level = makePlayers([70, 70, 70, 70, 70, 70, 70, 70])
+  const exact = findBestTeamBalance(level, 20, { seed: 1 })
+  if (exact.seed !== 1 || !exact.isOptimal) {
+    throw new Error('Exact results should report the seed that broke their ties')
+  }
+  if (sides(findBestTeamBalance(level, 20, { seed: 1 })) !== sides(exact)) {
+    throw new Error('The same seed should give the same exact pair')
+  }
+  // Which side is which doesn't make a different lineup
+  const lineup = (pair: TeamPair) =>
+    [pair.team1, pair.team2]
+      .map((team) => team.map((p) => p.id).sort((a, b) => a - b))
+      .find((ids) => ids.includes(1))!
+      .join(',')
+  const lineups = new Set(
+    Array.from({ length: 10 }, (_, seed) => lineup(findBestTeamBalance(level, 20, { seed }))),
+  )
+  if (lineups.size < 2) {
+    throw new Error('Different seeds should vary the teams when several splits are optimal')
+  }
+}
+
+function testFreshnessSplitsRecentTeammates() {
+  const players = makePlayers([70, 68, 66, 64, 62, 60, 58, 56, 54, 52])
+  const last = balanceTeamsExact(players)
+  const lineup = { team1: last.team1.map((p) => p.id), team2: last.team2.map((p) => p.id) }
+
+  const fresh = balanceTeamsExact(players, [], undefined, { history: [lineup], tolerance: 4 })
+  const before = countRepeatedTeammates(last.team1, last.team2, lineup)
+  const after = countRepeatedTeammates(fresh.team1, fresh.team2, lineup)
+  if (after.repeated >= before.repeated) {
+    throw new Error(`Expected fewer repeat teammates, got ${after.repeated} of ${after.total}`)
+  }
+  if (fresh.ratingDifference > last.ratingDifference + 4) {
+    throw new Error('Freshness should not widen the gap by more than its tolerance')
+  }
+  if (fresh.isOptimal !== (fresh.ratingDifference === last.ratingDifference)) {
+    throw new Error('Teams should only be marked optimal when the gap is still the smallest')
+  }
+
+  const same = balanceTeamsExact(players, [], undefined, { history: [lineup], tolerance: 0 })
+  if (same.ratingDifference !== last.ratingDifference) {
+    throw new Error('Zero tolerance should keep the best rating gap')
+  }
+}
+
+function testUnevenSides() {
+  const players = makePlayers([80, 75, 70, 65, 60, 55, 50, 45, 40, 35, 30, 25, 20])
+  const average = (team: Player[]) => team.reduce((sum, p) => sum + p.rating, 0) / team.length
+
+  for (const handicap of [0, 10, 25]) {
+    const pair = balanceUnevenTeams(players, handicap)
+    if (pair.team1.length !== 6 || pair.team2.length !== 7 || pair.substituteInfo) {
+      throw new Error('Uneven sides should be 6 v 7 with no substitute')
+    }
+    const gap = Math.abs(
+      effectiveStrength(pair.team1, pair.team2, handicap) -
+        effectiveStrength(pair.team2, pair.team1, handicap),
+    )
+    if (gap > 5) throw new Error(`Handicap ${handicap}: effective gap ${gap} is too wide`)
+    if (handicap > 0 && average(pair.team1) <= average(pair.team2)) {
+      throw new Error('The short side should need a higher average rating')
+    }
+  }
+
+  const viaOptions = findBestTeamBalance(players, 10, { unevenSides: { handicap: 10 } })
+  if (viaOptions.handicap !== 10 || viaOptions.team1.length === viaOptions.team2.length) {
+    throw new Error('unevenSides should split odd squads N v N+1')
+  }
+  const even = findBestTeamBalance(players.slice(1), 10, { unevenSides: { handicap: 10 } })
+  if (even.handicap !== undefined || even.team1.length !== even.team2.length) {
+    throw new Error('Even squads should still play equal sides')
+  }
+}
+
+function main() {
+  testExactMatchesBruteForce()
+  testRandomSquads()
+  testOddSquadKeepsSubstitute()
+  testFallbackAboveThreshold()
+  testPositionsAreSpread()
+  testConstraintsAreHonoured()
+  testInfeasibleConstraintsThrow()
+  testAttributesAreBalanced()
+  testKWaySplit()
+  testSeedsReproduceResults()
+  testFreshnessSplitsRecentTeammates()
+  testUnevenSides()
+  console.log('teamPairing tests passed')
+}
+
+main()
@@ -0,0 +1,92 @@
+import {
+  calculateTournamentStandings,
+  fixtureWinner,
+  knockoutBracket,
+  nextKnockoutFixture,
+  planTournament,
+  roundRobinRounds,
+} from '../tournament'
+
+// Pure, DB-free checks for tournament scheduling and standings.
+// Run with: npm run test:tournament
+
+function testTournament() {
+  // Round robin: every pair exactly once, nobody twice in a round
+  const rounds = roundRobinRounds(5)
+  const pairs = new Set(rounds.flat().map(([a, b]) => [a, b].sort().join('-')))
+  if (rounds.length !== 5 || pairs.size !== 10 || rounds.flat().length !== 10) {
+    throw new Error('Five teams should play ten fixtures over five rounds')
+  }
+  for (const round of rounds) {
+    const teams = round.flat()
+    if (new Set(teams).size !== teams.length) throw new Error('A team plays twice in a round')
+  }
+
+  // Scheduling: never more fixtures than pitches, nobody on two pitches at once
+  const plan = planTournament('ROUND_ROBIN', 6, 2)
+  if (plan.length !== 15) throw new Error(`Expected 15 fixtures, got ${plan.length}`)
+  const slots = new Map<number, number[]>()
+  for (const fixture of plan) {
+    slots.set(fixture.slot, [...(slots.get(fixture.slot) ?? []), fixture.home!, fixture.away!])
+    if (fixture.pitch < 1 || fixture.pitch > 2) throw new Error('Fixture on a missing pitch')
+  }
+  for (const [slot, teams] of slots) {
+    if (teams.length > 4) throw new Error(`Slot ${slot} has more fixtures than pitches`)
+    if (new Set(teams).size !== teams.length) throw new Error(`Slot ${slot} has a team clash`)
+  }
+
+  // Knockout with five teams: seeds 4 and 5 play off, the top three get byes
+  const bracket = knockoutBracket(5)
+  const firstRound = bracket.filter((f) => f.round === 1)
+  if (bracket.length !== 4 || firstRound.length !== 1) {
+    throw new Error('Five teams should need four knockout fixtures, one in the first round')
+  }
+  if (firstRound[0]!.home !== 3 || firstRound[0]!.away !== 4) {
+    throw new Error('The lowest seeds should play the first round')
+  }
+  const next = nextKnockoutFixture(1, firstRound[0]!.bracketIndex, 3)
+  const awaiting = bracket.find(
+    (f) => f.round === next?.round && f.bracketIndex === next.bracketIndex,
+  )
+  if (awaiting?.home !== 0 || awaiting.away !== null || next?.side !== 'away') {
+    throw new Error('The first-round winner should meet the top seed')
+  }
+  if (nextKnockoutFixture(3, 0, 3) !== null) throw new Error('Nothing comes after the final')
+  const knockoutPlan = planTournament('KNOCKOUT', 5, 2)
+  const final = knockoutPlan.find((f) => f.round === 3)!
+  if (knockoutPlan.some((f) => f.round < 3 && f.slot >= final.slot)) {
+    throw new Error('The final should wait for the rounds before it')
+  }
+
+  // 1 and 2 finish level on points, goal difference and goals; 1 won their game
+  const standings = calculateTournamentStandings(
+    [2, 1, 3, 4],
+    [
+      { homeTeamId: 1, awayTeamId: 2, homeScore: 1, awayScore: 0 },
+      { homeTeamId: 1, awayTeamId: 3, homeScore: 0, awayScore: 1 },
+      { homeTeamId: 1, awayTeamId: 4, homeScore: 1, awayScore: 0 },
+      { homeTeamId: 2, awayTeamId: 3, homeScore: 1, awayScore: 0 },
+      { homeTeamId: 2, awayTeamId: 4, homeScore: 1, awayScore: 0 },
+      { homeTeamId: 3, awayTeamId: 4, homeScore: 0, awayScore: 0 },
+      // Not played yet
+      { homeTeamId: 4, awayTeamId: 1, homeScore: null, awayScore: null },
+    ],
+  )
+  const order = standings.map((row) => row.teamId).join(',')
+  if (order !== '1,2,3,4') throw new Error(`Unexpected tournament order ${order}`)
+  if (standings[0]!.points !== 6 || standings[0]!.played !== 3 || standings[2]!.drawn !== 1) {
+    throw new Error(`Unexpected top row ${JSON.stringify(standings[0])}`)
+  }
+
+  const draw = { homeTeamId: 1, awayTeamId: 2, homeScore: 2, awayScore: 2 }
+  if (fixtureWinner(draw) !== null || fixtureWinner({ ...draw, winnerTeamId: 2 }) !== 2) {
+    throw new Error('A draw is only won by the recorded winner')
+  }
+}
+
+function main() {
+  testTournament()
+  console.log('tournament tests passed')
+}
+
+main()
@@ -0,0 +1,207 @@
+import { calculateTeamStats, finalizeTeamPair, type Player, type TeamPair } from './teamPairing'
+
+// 'alternating' picks A, B, A, B...; 'snake' picks A, B, B, A, A, B... so B gets the
+// second and third picks to make up for A having the first
+export type DraftOrder = 'alternating' | 'snake'
+
+export const DRAFT_ORDER_LABELS: Record<DraftOrder, string> = {
+  alternating: 'Alternating (A, B, A, B)',
+  snake: 'Snake (A, B, B, A)',
+}
+
+export interface DraftState {
+  order: DraftOrder
+  // Everyone in the draft, captains included, in pool order
+  pool: Player[]
+  // Each side starts with its captain; picks are added in the order they were made
+  team1: Player[]
+  team2: Player[]
+  // Players still to be picked, in pool order
+  available: Player[]
+  // IDs of the picked players in pick order, so picks can be undone
+  picks: number[]
+}
+
+/**
+ * Start a draft from the selected pool with two captains. Team A's captain picks first.
+ */
+export function startDraft(
+  players: Player[],
+  captain1Id: number,
+  captain2Id: number,
+  order: DraftOrder,
+): DraftState {
+  const captain1 = players.find((p) => p.id === captain1Id)
+  const captain2 = players.find((p) => p.id === captain2Id)
+  if (!captain1 || !captain2 || captain1Id === captain2Id) {
+    throw new Error('Choose two different captains from the selected players')
+  }
+
+  return {
+    order,
+    pool: players,
+    team1: [captain1],
+    team2: [captain2],
+    available: players.filter((p) => p.id !== captain1Id && p.id !== captain2Id),
+    picks: [],
+  }
+}
+
+/**
+ * Which side makes the pick with this index (0 is the first pick after the captains)
+ */
+export function pickingSide(order: DraftOrder, pickIndex: number): 1 | 2 {
+  if (order === 'alternating') return pickIndex % 2 === 0 ? 1 : 2
+  const round = Math.floor(pickIndex / 2)
+  const first: 1 | 2 = round % 2 === 0 ? 1 : 2
+  return pickIndex % 2 === 0 ? first : first === 1 ? 2 : 1
+}
+
+/**
+ * Side on the clock, or null once everyone has been picked
+ */
+export function nextPick(state: DraftState): 1 | 2 | null {
+  if (state.available.length === 0) return null
+  return pickingSide(state.order, state.picks.length)
+}
+
+/**
+ * Add a player to the side on the clock
+ */
+export function pickPlayer(state: DraftState, playerId: number): DraftState {
+  const side = nextPick(state)
+  const player = state.available.find((p) => p.id === playerId)
+  if (!side || !player) {
+    throw new Error('That player is not available to pick')
+  }
+
+  return {
+    ...state,
+    team1: side === 1 ? [...state.team1, player] : state.team1,
+    team2: side === 2 ? [...state.team2, player] : state.team2,
+    available: state.available.filter((p) => p.id !== playerId),
+    picks: [...state.picks, playerId],
+  }
+}
+
+/**
+ * Put the most recent pick back in the pool
+ */
+export function undoPick(state: DraftState): DraftState {
+  const playerId = state.picks[state.picks.length - 1]
+  if (playerId === undefined) return state
+
+  const availableIds = new Set([...state.available.map((p) => p.id), playerId])
+  return {
+    ...state,
+    team1: state.team1.filter((p) => p.id !== playerId),
+    team2: state.team2.filter((p) => p.id !== playerId),
+    // Back in its place in the pool rather than at the end
+    available: state.pool.filter((p) => availableIds.has(p.id)),
+    picks: state.picks.slice(0, -1),
+  }
+}
+
+/**
+ * The pick that keeps the most level finish within reach for the side on the clock.
+ *
+ * Each candidate is scored by the smallest final gap still possible after picking them:
+ * both sides' current totals (from calculateTeamStats) plus the best way the rest of the
+ * pool could fill the remaining picks. An odd pool's last pick is the substitute and, like
+ * ratingDifference, doesn't count. Ties go to the higher-rated player, so captains still
+ * take the best player who doesn't tip the balance.
+ */
+export function suggestPick(state: DraftState): Player | null {
+  const side = nextPick(state)
+  if (!side) return null
+
+  // The final pick of an odd pool is the substitute
+  const totalPicks = state.pool.length - 2
+  const countedPicks = state.pool.length % 2 === 0 ? totalPicks : totalPicks - 1
+
+  // How many counted picks each side still has after this one
+  const picksLeft = { 1: 0, 2: 0 }
+  for (let index = state.picks.length + 1; index < countedPicks; index++) {
+    picksLeft[pickingSide(state.order, index)]++
+  }
+  const countsNow = state.picks.length < countedPicks
+
+  let best: Player | null = null
+  let bestGap = Infinity
+  for (const candidate of state.available) {
+    const added = countsNow ? [candidate] : []
+    const total1 = calculateTeamStats(side === 1 ? [...state.team1, ...added] : state.team1)
+    const total2 = calculateTeamStats(side === 2 ? [...state.team2, ...added] : state.team2)
+    const gap = smallestFinalGap(
+      total1.totalRating - total2.totalRating,
+      state.available.filter((p) => p.id !== candidate.id),
+      picksLeft[1],
+      picksLeft[2],
+    )
+
+    if (gap < bestGap || (gap === bestGap && candidate.rating > best!.rating)) {
+      best = candidate
+      bestGap = gap
+    }
+  }
+  return best
+}
+
+/**
+ * Smallest |gap| reachable by giving picks1 of the rest to Team A and picks2 to Team B,
+ * leaving anyone else out. Tracks every reachable gap per (A count, B count).
+ */
+function smallestFinalGap(gap: number, rest: Player[], picks1: number, picks2: number): number {
+  const maxOut = rest.length - picks1 - picks2
+  // states[count1 * (picks2 + 1) + count2] holds the gaps reachable with those counts
+  const slot = (count1: number, count2: number) => count1 * (picks2 + 1) + count2
+  let states: Array<Set<number> | undefined> = []
+  states[slot(0, 0)] = new Set([gap])
+
+  rest.forEach((player, index) => {
+    const next: Array<Set<number> | undefined> = []
+    const add = (count1: number, count2: number, value: number) => {
+      const gaps = next[slot(count1, count2)] ?? new Set<number>()
+      gaps.add(value)
+      next[slot(count1, count2)] = gaps
+    }
+    for (let count1 = 0; count1 <= picks1; count1++) {
+      for (let count2 = 0; count2 <= picks2; count2++) {
+        for (const value of states[slot(count1, count2)] ?? []) {
+          if (count1 < picks1) add(count1 + 1, count2, value + player.rating)
+          if (count2 < picks2) add(count1, count2 + 1, value - player.rating)
+          if (index + 1 - count1 - count2 <= maxOut) add(count1, count2, value)
+        }
+      }
+    }
+    states = next
+  })
+
+  const finals = states[slot(picks1, picks2)] ?? new Set([gap])
+  return Math.min(...[...finals].map(Math.abs))
+}
+
+/**
+ * Turn a finished draft into the same TeamPair the automatic modes produce. With an odd
+ * pool, the last player picked is the substitute for the side that picked them.
+ */
+export function finishDraft(state: DraftState): TeamPair {
+  if (state.available.length > 0) {
+    throw new Error('Every player needs to be picked before the draft can finish')
+  }
+
+  const lastPickId = state.picks[state.picks.length - 1]
+  if (state.pool.length % 2 === 0 || lastPickId === undefined) {
+    return finalizeTeamPair([...state.team1], [...state.team2], null, false)
+  }
+
+  const teamWithSub = pickingSide(state.order, state.picks.length - 1)
+  const substitute = [...state.team1, ...state.team2].find((p) => p.id === lastPickId)!
+  return finalizeTeamPair(
+    state.team1.filter((p) => p.id !== lastPickId),
+    state.team2.filter((p) => p.id !== lastPickId),
+    substitute,
+    false,
+    teamWithSub,
+  )
+}
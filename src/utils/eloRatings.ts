@@ -0,0 +1,99 @@
+import { winProbability } from './fairnessReport'
+import { MAX_RATING, MIN_RATING } from './playerRatings'
+
+/**
+ * A player in a match whose rating a result can move
+ */
+export interface RatedParticipant {
+  playerId: number
+  rating: number
+  side: 1 | 2
+  isSubstitute: boolean
+  // Ratings derived from attribute scores are recalculated from them, so a result can't move them
+  fromAttributes?: boolean
+}
+
+export interface RatingChange {
+  playerId: number
+  side: 1 | 2
+  oldRating: number
+  newRating: number
+  change: number
+  // True when the rating comes from attribute scores and was left as it is
+  skipped: boolean
+}
+
+// Most rating points one side can gain (and the other lose) from a one-goal result
+const K_FACTOR = 4
+
+/**
+ * How much more a bigger win counts, as in the World Football Elo ratings: a draw or
+ * one-goal win counts once, two goals 1.5 times, and N goals (11 + N) / 8 times
+ */
+export function marginMultiplier(goalDifference: number): number {
+  const margin = Math.abs(goalDifference)
+  if (margin <= 1) return 1
+  if (margin === 2) return 1.5
+  return (11 + margin) / 8
+}
+
+/**
+ * Team-based Elo update for a recorded result. Each side's strength is the average rating
+ * of its starters, the expected score comes from the same win probability as the fairness
+ * report, and every participant on a side (substitutes too) moves by the side's change.
+ * The sides move by the same amount in opposite directions, before clamping to 1-100.
+ */
+export function calculateRatingChanges(
+  participants: RatedParticipant[],
+  team1Score: number,
+  team2Score: number,
+): RatingChange[] {
+  const average = (side: 1 | 2) => {
+    const starters = participants.filter((p) => p.side === side && !p.isSubstitute)
+    return starters.length > 0
+      ? starters.reduce((sum, p) => sum + p.rating, 0) / starters.length
+      : 0
+  }
+
+  const expected = winProbability(average(1), average(2))
+  const actual = team1Score > team2Score ? 1 : team1Score < team2Score ? 0 : 0.5
+  const team1Change = Math.round(
+    K_FACTOR * marginMultiplier(team1Score - team2Score) * (actual - expected),
+  )
+
+  return participants.map((p) => {
+    const change = p.fromAttributes ? 0 : p.side === 1 ? team1Change : -team1Change
+    const newRating = Math.max(MIN_RATING, Math.min(MAX_RATING, p.rating + change))
+    return {
+      playerId: p.playerId,
+      side: p.side,
+      oldRating: p.rating,
+      newRating,
+      change: newRating - p.rating,
+      skipped: !!p.fromAttributes,
+    }
+  })
+}
+
+/**
+ * Rating changes for a result that may correct an earlier one. What the match has
+ * already moved each rating by (applied, per player) is taken back before the new score
+ * is applied, so a correction replaces the old changes instead of adding to them.
+ * Changes run from the players' current ratings.
+ */
+export function correctedRatingChanges(
+  participants: RatedParticipant[],
+  team1Score: number,
+  team2Score: number,
+  applied: Map<number, number>,
+): RatingChange[] {
+  const moved = (playerId: number) => applied.get(playerId) ?? 0
+  const uncounted = participants.map((p) => ({ ...p, rating: p.rating - moved(p.playerId) }))
+
+  return calculateRatingChanges(uncounted, team1Score, team2Score).map((c) => {
+    const current = c.oldRating + moved(c.playerId)
+    // Attribute-derived ratings stay as they are, whatever the match did before
+    const newRating = c.skipped ? current : c.newRating
+    return { ...c, oldRating: current, newRating, change: newRating - current }
+  })
+}
@@ -0,0 +1,133 @@
+import {
+  calculateTeamStats,
+  countPositions,
+  effectiveStrength,
+  POSITIONS,
+  type Player,
+  type Position,
+} from './teamPairing'
+
+/**
+ * How one side of a pair is made up
+ */
+export interface SideFairness {
+  playerCount: number
+  totalRating: number
+  averageRating: number
+  // Spread of the ratings around the average; high means a few stars carrying weaker players
+  standardDeviation: number
+  // Sum of the three best ratings (or of everyone, on a smaller side)
+  topThree: number
+  positions: Record<Position, number>
+}
+
+/**
+ * More than ratingDifference: two sides with equal totals can still be lopsided
+ */
+export interface FairnessReport {
+  team1: SideFairness
+  team2: SideFairness
+  // Positions one side has covered and the other has nobody for
+  uncoveredPositions: Array<{ position: Position; missingFrom: 1 | 2 }>
+  // Elo-style chance of each side winning, from 0 to 1; the two add up to 1
+  team1WinProbability: number
+  team2WinProbability: number
+}
+
+// Elo points per point of rating strength: a side 5 points stronger wins about 64% of the time
+const ELO_PER_RATING_POINT = 20
+
+// How much a side's top three count on top of its average when estimating strength
+const STAR_WEIGHT = 0.25
+
+/**
+ * Report on how evenly matched two sides are. Like ratingDifference, only the players on
+ * the pitch count, so pass the substitute's ID when there is one. For sides split N v N+1,
+ * pass the handicap they were balanced with so the win probability uses effectiveStrength.
+ */
+export function buildFairnessReport(
+  team1: Player[],
+  team2: Player[],
+  substituteId?: number,
+  handicap?: number,
+): FairnessReport {
+  const onPitch1 = team1.filter((p) => p.id !== substituteId)
+  const onPitch2 = team2.filter((p) => p.id !== substituteId)
+  const side1 = describeSide(onPitch1)
+  const side2 = describeSide(onPitch2)
+
+  const uncoveredPositions: FairnessReport['uncoveredPositions'] = []
+  for (const position of POSITIONS) {
+    if (side1.positions[position] > 0 && side2.positions[position] === 0) {
+      uncoveredPositions.push({ position, missingFrom: 2 })
+    } else if (side2.positions[position] > 0 && side1.positions[position] === 0) {
+      uncoveredPositions.push({ position, missingFrom: 1 })
+    }
+  }
+
+  const team1WinProbability = winProbability(
+    strength(effectiveRatings(onPitch1, onPitch2, handicap)),
+    strength(effectiveRatings(onPitch2, onPitch1, handicap)),
+  )
+  return {
+    team1: side1,
+    team2: side2,
+    uncoveredPositions,
+    team1WinProbability,
+    team2WinProbability: 1 - team1WinProbability,
+  }
+}
+
+function describeSide(players: Player[]): SideFairness {
+  const { playerCount, totalRating, averageRating } = calculateTeamStats(players)
+  const mean = playerCount > 0 ? totalRating / playerCount : 0
+  const variance =
+    players.length > 0
+      ? players.reduce((sum, p) => sum + (p.rating - mean) ** 2, 0) / players.length
+      : 0
+  const topThree = [...players]
+    .sort((a, b) => b.rating - a.rating)
+    .slice(0, 3)
+    .reduce((sum, p) => sum + p.rating, 0)
+
+  return {
+    playerCount,
+    totalRating,
+    averageRating,
+    standardDeviation: Math.round(Math.sqrt(variance) * 10) / 10,
+    topThree,
+    positions: countPositions(players),
+  }
+}
+
+/**
+ * The ratings a side plays with. Split N v N+1 with a handicap, the short side's missing
+ * slot counts as its average minus the handicap, adding up to its effectiveStrength.
+ */
+function effectiveRatings(team: Player[], otherTeam: Player[], handicap?: number): number[] {
+  const ratings = team.map((p) => p.rating)
+  const missing = otherTeam.length - team.length
+  if (handicap === undefined || missing <= 0 || team.length === 0) return ratings
+  const total = ratings.reduce((sum, rating) => sum + rating, 0)
+  const slot = (effectiveStrength(team, otherTeam, handicap) - total) / missing
+  return [...ratings, ...Array<number>(missing).fill(slot)]
+}
+
+/**
+ * A side's strength: its average rating, nudged up by how far its best three stand
+ * above that average
+ */
+function strength(ratings: number[]): number {
+  if (ratings.length === 0) return 0
+  const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+  const topThree = [...ratings].sort((a, b) => b - a).slice(0, 3)
+  const starAverage = topThree.reduce((sum, rating) => sum + rating, 0) / topThree.length
+  return average + STAR_WEIGHT * (starAverage - average)
+}
+
+/**
+ * Elo-style chance of a side with strength1 beating one with strength2, from 0 to 1
+ */
+export function winProbability(strength1: number, strength2: number): number {
+  return 1 / (1 + 10 ** (((strength2 - strength1) * ELO_PER_RATING_POINT) / 400))
+}
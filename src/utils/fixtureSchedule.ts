@@ -0,0 +1,140 @@
+export type ScheduleFrequency = 'WEEKLY' | 'FORTNIGHTLY'
+
+export const SCHEDULE_FREQUENCIES: Array<{ value: ScheduleFrequency; label: string }> = [
+  { value: 'WEEKLY', label: 'Every week' },
+  { value: 'FORTNIGHTLY', label: 'Every other week' },
+]
+
+// Sunday first, like Date.getDay()
+export const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+]
+
+export const MIN_PLAYERS_PER_SIDE = 2
+export const MAX_PLAYERS_PER_SIDE = 11
+
+// Fixtures are created from a schedule this far ahead, so players can answer in time
+export const SCHEDULE_WEEKS_AHEAD = 4
+
+const DAY_MS = 86_400_000
+
+/**
+ * A team's regular game, e.g. "Tuesdays at 19:00, 5v5", as the schedule queries
+ * return it
+ */
+export interface FixtureSchedule {
+  frequency: ScheduleFrequency
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number
+  // Kick-off as HH:MM in timeZone
+  time: string
+  // IANA name, e.g. Europe/London
+  timeZone: string
+  // 5 for 5v5; fixtures from the schedule take twice this many players
+  playersPerSide: number
+  venue: string | null
+  // Pence/cents, given to each fixture from the schedule; null when free
+  cost: number | null
+  // YYYY-MM-DD; the series starts that week and fortnights count from it
+  startDate: string
+}
+
+/**
+ * "5v5"
+ */
+export function formatLabel(playersPerSide: number): string {
+  return `${playersPerSide}v${playersPerSide}`
+}
+
+/**
+ * "Every Tuesday, 19:00 · 5v5" or "Every other Tuesday, 19:00 · 5v5"
+ */
+export function scheduleLabel(
+  schedule: Pick<FixtureSchedule, 'frequency' | 'weekday' | 'time' | 'playersPerSide'>,
+): string {
+  const every = schedule.frequency === 'FORTNIGHTLY' ? 'Every other' : 'Every'
+  return `${every} ${WEEKDAYS[schedule.weekday]}, ${schedule.time} · ${formatLabel(schedule.playersPerSide)}`
+}
+
+/**
+ * Whether the runtime knows a time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Minutes a time zone is ahead of UTC at an instant
+ */
+function zoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value)
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+  )
+  return Math.round((wallClock - instant) / 60_000)
+}
+
+/**
+ * The instant a date (YYYY-MM-DD) and time (HH:MM) on the clocks of a time zone happen.
+ * A time the clocks skip when they go forward comes out an hour later.
+ */
+export function zonedDateTime(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year!, month! - 1, day!, hour!, minute!)
+  // The offset at the wall-clock time is right except near a change; a second pass
+  // with the offset at the first guess settles it
+  const guess = wallClock - zoneOffsetMinutes(wallClock, timeZone) * 60_000
+  return new Date(wallClock - zoneOffsetMinutes(guess, timeZone) * 60_000)
+}
+
+/**
+ * Kick-off times a schedule gives from one instant until another, soonest first. The
+ * time of day follows the schedule's time zone through clock changes.
+ */
+export function scheduledOccurrences(
+  schedule: Pick<FixtureSchedule, 'frequency' | 'weekday' | 'time' | 'timeZone' | 'startDate'>,
+  from: Date,
+  until: Date,
+): Date[] {
+  const start = Date.parse(`${schedule.startDate}T00:00:00Z`)
+  const first = start + ((schedule.weekday - new Date(start).getUTCDay() + 7) % 7) * DAY_MS
+  const step = (schedule.frequency === 'FORTNIGHTLY' ? 14 : 7) * DAY_MS
+
+  // Jump to the last date before from; no time zone is more than a day off UTC
+  const skipTo = from.getTime() - 2 * DAY_MS
+  let day = first + Math.max(0, Math.floor((skipTo - first) / step)) * step
+
+  const occurrences: Date[] = []
+  for (; day <= until.getTime() + DAY_MS; day += step) {
+    const date = new Date(day).toISOString().slice(0, 10)
+    const kickOff = zonedDateTime(date, schedule.time, schedule.timeZone)
+    if (kickOff >= from && kickOff <= until) occurrences.push(kickOff)
+  }
+  return occurrences
+}
@@ -0,0 +1,182 @@
+// WAITLIST is never chosen: players saying they're in when the fixture is full join it
+export type RsvpStatus = 'IN' | 'OUT' | 'MAYBE' | 'WAITLIST'
+
+export const RSVP_STATUSES: Array<{ value: Exclude<RsvpStatus, 'WAITLIST'>; label: string }> = [
+  { value: 'IN', label: 'In' },
+  { value: 'MAYBE', label: 'Maybe' },
+  { value: 'OUT', label: 'Out' },
+]
+
+// A fixture stays upcoming until this long after kick-off, so teams can still be picked
+// on the night
+export const FIXTURE_GRACE_MINUTES = 180
+
+export interface FixtureResponse {
+  playerId: number
+  status: RsvpStatus
+  // When the current answer was given; orders the waitlist
+  updatedAt: string
+}
+
+/**
+ * One change to a fixture's answers, as Fixture.changes returns it
+ */
+export interface FixtureResponseChange {
+  id: number
+  playerId: number
+  player: { id: number; name: string }
+  // Null when the answer was cleared
+  status: RsvpStatus | null
+  // Moved up from the waitlist when a place came free
+  promoted: boolean
+  createdAt: string
+}
+
+/**
+ * An answer to write: a player's new status (null to clear it), and whether it's a
+ * promotion from the waitlist rather than something the player said
+ */
+export interface RsvpChange {
+  playerId: number
+  status: RsvpStatus | null
+  promoted: boolean
+}
+
+export interface RsvpCounts {
+  in: number
+  out: number
+  maybe: number
+  waitlist: number
+  // Squad players who haven't answered
+  noResponse: number
+}
+
+/**
+ * A fixture, as the fixture queries return it
+ */
+export interface Fixture {
+  id: number
+  teamId: number
+  team: { id: number; name: string }
+  // ISO date-time of kick-off
+  startsAt: string
+  venue: string | null
+  // Players the pitch takes; null for no limit
+  capacity: number | null
+  // Pitch hire in pence/cents, split between the players who are in; null when free
+  cost: number | null
+  // Each confirmed player's part of the cost
+  shares: Array<{ playerId: number; amount: number }>
+  // Kick-off the team's schedule gave it, even if it has since moved; null when it was
+  // arranged by hand
+  scheduledFor: string | null
+  // Not happening this time; only fixtures from a schedule are skipped
+  skipped: boolean
+  responses: FixtureResponse[]
+  counts: RsvpCounts
+}
+
+/**
+ * Whether a fixture kicking off at startsAt still counts as upcoming
+ */
+export function isUpcoming(startsAt: string | Date, now = new Date()): boolean {
+  return new Date(startsAt).getTime() + FIXTURE_GRACE_MINUTES * 60_000 >= now.getTime()
+}
+
+/**
+ * How many of a squad are in, out or maybe, and how many haven't answered. Answers from
+ * players who have since left the squad still count.
+ */
+export function countResponses(
+  squadIds: number[],
+  responses: Array<Pick<FixtureResponse, 'playerId' | 'status'>>,
+): RsvpCounts {
+  const answered = new Set(responses.map((r) => r.playerId))
+  return {
+    in: responses.filter((r) => r.status === 'IN').length,
+    out: responses.filter((r) => r.status === 'OUT').length,
+    maybe: responses.filter((r) => r.status === 'MAYBE').length,
+    waitlist: responses.filter((r) => r.status === 'WAITLIST').length,
+    noResponse: new Set(squadIds.filter((id) => !answered.has(id))).size,
+  }
+}
+
+/**
+ * The waitlist in order: whoever joined it first is promoted first
+ */
+export function waitlist<T extends Pick<FixtureResponse, 'playerId' | 'status'>>(
+  responses: Array<T & { updatedAt: string | Date }>,
+): T[] {
+  return responses
+    .filter((r) => r.status === 'WAITLIST')
+    .sort(
+      (a, b) =>
+        new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime() ||
+        a.playerId - b.playerId,
+    )
+}
+
+/**
+ * Waitlisted players who now fit: as many as there are free places, first come first
+ * served. Everyone on the waitlist fits once the capacity is removed.
+ */
+export function waitlistPromotions(
+  responses: Array<Pick<FixtureResponse, 'playerId' | 'status'> & { updatedAt: string | Date }>,
+  capacity: number | null,
+): RsvpChange[] {
+  const queue = waitlist(responses)
+  const free =
+    capacity === null ? queue.length : capacity - responses.filter((r) => r.status === 'IN').length
+  return queue
+    .slice(0, Math.max(0, free))
+    .map((r): RsvpChange => ({ playerId: r.playerId, status: 'IN', promoted: true }))
+}
+
+/**
+ * What a player's answer changes. Saying you're in when the fixture is full puts you at
+ * the back of the waitlist (asking again keeps your place); dropping out of a full
+ * fixture promotes the first player waiting.
+ */
+export function planRsvpChange(
+  responses: Array<Pick<FixtureResponse, 'playerId' | 'status'> & { updatedAt: string | Date }>,
+  capacity: number | null,
+  playerId: number,
+  status: Exclude<RsvpStatus, 'WAITLIST'> | null,
+  now = new Date(),
+): RsvpChange[] {
+  const current = responses.find((r) => r.playerId === playerId)?.status ?? null
+  let next: RsvpStatus | null = status
+  if (status === 'IN' && current !== 'IN') {
+    const confirmed = responses.filter((r) => r.status === 'IN').length
+    if (capacity !== null && confirmed >= capacity) next = 'WAITLIST'
+  }
+  if (next === current) return []
+
+  const others = responses.filter((r) => r.playerId !== playerId)
+  const after = next ? [...others, { playerId, status: next, updatedAt: now }] : others
+  return [{ playerId, status: next, promoted: false }, ...waitlistPromotions(after, capacity)]
+}
+
+/**
+ * Players who said they're in, for pre-selecting them when picking teams. Nobody on the
+ * waitlist is included.
+ */
+export function confirmedPlayerIds(
+  responses: Array<Pick<FixtureResponse, 'playerId' | 'status'>>,
+): number[] {
+  return responses.filter((r) => r.status === 'IN').map((r) => r.playerId)
+}
+
+/**
+ * "Tue 17 Mar, 19:00 · Powerleague" for lists and pickers
+ */
+export function fixtureLabel(fixture: Pick<Fixture, 'startsAt' | 'venue'>): string {
+  const when = new Date(fixture.startsAt).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  return fixture.venue ? `${when} · ${fixture.venue}` : when
+}
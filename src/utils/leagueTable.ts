@@ -0,0 +1,124 @@
+export const POINTS_FOR_WIN = 3
+export const POINTS_FOR_DRAW = 1
+
+/**
+ * A team's season, as the season queries return it. Dates are YYYY-MM-DD, both included.
+ */
+export interface Season {
+  id: number
+  teamId: number
+  name: string
+  startDate: string
+  endDate: string
+  minAppearances: number
+}
+
+/**
+ * A date as YYYY-MM-DD in local time, for comparing with season dates
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * The season a date (YYYY-MM-DD) falls in, if any. A team's seasons never overlap.
+ */
+export function currentSeason<T extends Pick<Season, 'startDate' | 'endDate'>>(
+  seasons: T[],
+  today: string,
+): T | null {
+  return seasons.find((s) => s.startDate <= today && today <= s.endDate) ?? null
+}
+
+/**
+ * A season match as the league table needs it: the result and who played on which side
+ */
+export interface LeagueMatch {
+  team1Score: number | null
+  team2Score: number | null
+  players: Array<{ playerId: number; side: number }>
+}
+
+export interface LeagueTableRow {
+  playerId: number
+  // 1 for the top of the table; unqualified players are ranked after everyone who qualified
+  position: number
+  // Matches with a recorded result, substitutes included
+  appearances: number
+  wins: number
+  draws: number
+  losses: number
+  // Goals the player's side scored and conceded across their appearances
+  goalsFor: number
+  goalsAgainst: number
+  goalDifference: number
+  points: number
+  // Has at least the season's minimum number of appearances
+  qualified: boolean
+}
+
+/**
+ * Rank the players in a season's matches as individuals: each player takes their side's
+ * result from every match they played in. Matches without a result are ignored.
+ *
+ * Players are ordered by points, then goal difference, then appearances. Players with
+ * fewer than minAppearances appearances are listed after everyone who qualified.
+ */
+export function calculateLeagueTable(matches: LeagueMatch[], minAppearances = 0): LeagueTableRow[] {
+  const rows = new Map<number, LeagueTableRow>()
+
+  for (const match of matches) {
+    if (match.team1Score === null || match.team2Score === null) continue
+
+    for (const { playerId, side } of match.players) {
+      const [scored, conceded] =
+        side === 1 ? [match.team1Score, match.team2Score] : [match.team2Score, match.team1Score]
+      let row = rows.get(playerId)
+      if (!row) {
+        row = {
+          playerId,
+          position: 0,
+          appearances: 0,
+          wins: 0,
+          draws: 0,
+          losses: 0,
+          goalsFor: 0,
+          goalsAgainst: 0,
+          goalDifference: 0,
+          points: 0,
+          qualified: false,
+        }
+        rows.set(playerId, row)
+      }
+
+      row.appearances++
+      row.goalsFor += scored
+      row.goalsAgainst += conceded
+      if (scored > conceded) row.wins++
+      else if (scored < conceded) row.losses++
+      else row.draws++
+    }
+  }
+
+  const table = [...rows.values()]
+  for (const row of table) {
+    row.goalDifference = row.goalsFor - row.goalsAgainst
+    row.points = row.wins * POINTS_FOR_WIN + row.draws * POINTS_FOR_DRAW
+    row.qualified = row.appearances >= minAppearances
+  }
+
+  table.sort(
+    (a, b) =>
+      Number(b.qualified) - Number(a.qualified) ||
+      b.points - a.points ||
+      b.goalDifference - a.goalDifference ||
+      b.appearances - a.appearances ||
+      a.playerId - b.playerId,
+  )
+  table.forEach((row, index) => {
+    row.position = index + 1
+  })
+  return table
+}
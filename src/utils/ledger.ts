@@ -0,0 +1,159 @@
+// Amounts are whole minor units (pence, cents) so splits add up exactly
+
+export const MAX_FIXTURE_COST = 1_000_000
+
+export type LedgerEntryKind = 'FEE' | 'PAYMENT'
+
+/**
+ * A player's share of a played fixture's cost, as it was charged at kick-off
+ */
+export interface FixtureFee {
+  fixtureId: number
+  playerId: number
+  amount: number
+  startsAt: Date
+}
+
+export interface LedgerPayment {
+  id: number
+  playerId: number
+  // Negative for a refund
+  amount: number
+  paidAt: Date
+  note: string | null
+}
+
+/**
+ * One line of a player's account: a share of a fixture's cost or a payment
+ */
+export interface LedgerEntry {
+  playerId: number
+  kind: LedgerEntryKind
+  date: Date
+  // Negative for a fee, positive for a payment
+  amount: number
+  fixtureId: number | null
+  paymentId: number | null
+  note: string | null
+  // The player's balance after this entry
+  balance: number
+}
+
+/**
+ * What a player has been charged and has paid. A negative balance is owed, a positive
+ * one is credit towards the next game.
+ */
+export interface PlayerBalance {
+  playerId: number
+  charged: number
+  paid: number
+  balance: number
+}
+
+/**
+ * Split a cost between players as evenly as whole units allow. Shares differ by at most
+ * one unit; the odd units go to the lowest player IDs so the split doesn't change
+ * between calls.
+ */
+export function splitCost(
+  cost: number,
+  playerIds: number[],
+): Array<{ playerId: number; amount: number }> {
+  const ids = [...new Set(playerIds)].sort((a, b) => a - b)
+  if (ids.length === 0) return []
+  const base = Math.floor(cost / ids.length)
+  const remainder = cost - base * ids.length
+  return ids.map((playerId, index) => ({
+    playerId,
+    amount: base + (index < remainder ? 1 : 0),
+  }))
+}
+
+/**
+ * Every player's fees and payments, oldest first, with a running balance per player.
+ * On the same date a fee comes before a payment.
+ */
+export function buildLedger(fees: FixtureFee[], payments: LedgerPayment[]): LedgerEntry[] {
+  const entries: Array<Omit<LedgerEntry, 'balance'>> = [
+    ...fees
+      .filter((fee) => fee.amount > 0)
+      .map((fee) => ({
+        playerId: fee.playerId,
+        kind: 'FEE' as const,
+        date: fee.startsAt,
+        amount: -fee.amount,
+        fixtureId: fee.fixtureId,
+        paymentId: null,
+        note: null,
+      })),
+    ...payments.map((payment) => ({
+      playerId: payment.playerId,
+      kind: 'PAYMENT' as const,
+      date: payment.paidAt,
+      amount: payment.amount,
+      fixtureId: null,
+      paymentId: payment.id,
+      note: payment.note,
+    })),
+  ]
+  entries.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() ||
+      (a.kind === b.kind ? 0 : a.kind === 'FEE' ? -1 : 1) ||
+      (a.fixtureId ?? a.paymentId ?? 0) - (b.fixtureId ?? b.paymentId ?? 0),
+  )
+
+  const balances = new Map<number, number>()
+  return entries.map((entry) => {
+    const balance = (balances.get(entry.playerId) ?? 0) + entry.amount
+    balances.set(entry.playerId, balance)
+    return { ...entry, balance }
+  })
+}
+
+/**
+ * Each player's totals: the squad, plus anyone who has since left with fees or payments
+ * on their account. Most owed first.
+ */
+export function playerBalances(
+  fees: FixtureFee[],
+  payments: LedgerPayment[],
+  squadIds: number[],
+): PlayerBalance[] {
+  const totals = new Map<number, PlayerBalance>()
+  const totalFor = (playerId: number) => {
+    let total = totals.get(playerId)
+    if (!total) {
+      total = { playerId, charged: 0, paid: 0, balance: 0 }
+      totals.set(playerId, total)
+    }
+    return total
+  }
+
+  squadIds.forEach(totalFor)
+  for (const entry of buildLedger(fees, payments)) {
+    const total = totalFor(entry.playerId)
+    if (entry.kind === 'FEE') total.charged -= entry.amount
+    else total.paid += entry.amount
+    total.balance += entry.amount
+  }
+  return [...totals.values()].sort((a, b) => a.balance - b.balance || a.playerId - b.playerId)
+}
+
+/**
+ * "12.50" for 1250; amounts carry no currency
+ */
+export function formatMoney(amount: number): string {
+  return (amount / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+}
+
+/**
+ * 1250 for "12.50" or "12.5"; null if it isn't an amount
+ */
+export function toMinorUnits(value: string | number): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null
+}
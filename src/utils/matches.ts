@@ -0,0 +1,98 @@
+import type { LineupRecord } from './pairingHistory'
+import type { Position } from './teamPairing'
+
+// How a saved lineup was put together: Generate, Mix Teams, or a captain draft
+export type LineupMode = 'BALANCED' | 'RANDOM' | 'DRAFT'
+
+export const LINEUP_MODE_LABELS: Record<LineupMode, string> = {
+  BALANCED: 'Balanced',
+  RANDOM: 'Mixed',
+  DRAFT: 'Captain draft',
+}
+
+export type MatchEventType = 'GOAL' | 'ASSIST' | 'OWN_GOAL' | 'CLEAN_SHEET'
+
+export const MATCH_EVENT_LABELS: Record<MatchEventType, string> = {
+  GOAL: '⚽ Goal',
+  ASSIST: '🅰️ Assist',
+  OWN_GOAL: '🙈 Own goal',
+  CLEAN_SHEET: '🧤 Clean sheet',
+}
+
+export interface MatchEvent {
+  id: number
+  playerId: number
+  type: MatchEventType
+  minute: number | null
+}
+
+export interface MatchPlayer {
+  playerId: number
+  side: 1 | 2
+  isSubstitute: boolean
+  // Secret for the player's voting link; only loaded for the owner's single-match page
+  ballotToken?: string
+  player: {
+    id: number
+    name: string
+    rating: number
+    position?: Position | null
+  }
+}
+
+/**
+ * A saved lineup, as the match queries return it
+ */
+export interface Match {
+  id: number
+  teamId: number
+  playedAt: string
+  // League season the result counts towards, if tagged
+  seasonId: number | null
+  season: { id: number; name: string } | null
+  pairingMode: LineupMode | null
+  pairingSeed: number | null
+  players: MatchPlayer[]
+  // Final score; both null until the result is recorded
+  team1Score: number | null
+  team2Score: number | null
+  events: MatchEvent[]
+  // When the result updated player ratings, if it has
+  ratedAt: string | null
+  createdAt: string
+}
+
+/**
+ * One side of a saved match, and its rating total without the substitute
+ */
+export function matchSide(match: Match, side: 1 | 2): { players: MatchPlayer[]; total: number } {
+  const players = match.players.filter((p) => p.side === side)
+  const total = players.filter((p) => !p.isSubstitute).reduce((sum, p) => sum + p.player.rating, 0)
+  return { players, total }
+}
+
+/**
+ * A saved match as the lineup record freshness works from
+ */
+export function lineupFromMatch(match: Match): LineupRecord {
+  return {
+    team1: matchSide(match, 1).players.map((p) => p.playerId),
+    team2: matchSide(match, 2).players.map((p) => p.playerId),
+  }
+}
+
+/**
+ * The score the recorded goals add up to: goals count for the scorer's side and own goals
+ * for the other one. Events for players no longer in the lineup are skipped.
+ */
+export function goalsFromEvents(match: Pick<Match, 'players' | 'events'>): [number, number] {
+  const sides = new Map(match.players.map((p) => [p.playerId, p.side]))
+  const goals: [number, number] = [0, 0]
+  for (const event of match.events) {
+    const side = sides.get(event.playerId)
+    if (!side) continue
+    if (event.type === 'GOAL') goals[side === 1 ? 0 : 1]++
+    if (event.type === 'OWN_GOAL') goals[side === 1 ? 1 : 0]++
+  }
+  return goals
+}
@@ -0,0 +1,101 @@
+export const DEFAULT_MOTM_VOTING_HOURS = 48
+export const MIN_MOTM_VOTING_HOURS = 1
+// A week, so a poll is settled before the next regular game
+export const MAX_MOTM_VOTING_HOURS = 168
+
+const HOUR_MS = 3_600_000
+
+/**
+ * One participant's man-of-the-match vote, as the tally needs it
+ */
+export interface MotmBallot {
+  voterId: number
+  playerId: number
+  createdAt: Date
+}
+
+export interface MotmCount {
+  playerId: number
+  votes: number
+}
+
+/**
+ * A match's man-of-the-match vote, as Match.motm returns it
+ */
+export interface MotmPoll {
+  closesAt: string
+  isOpen: boolean
+  voters: Array<{ id: number; name: string }>
+  tally: MotmCount[]
+  // Stored once voting closes; null before then or if nobody voted
+  winner: { id: number; name: string } | null
+}
+
+/**
+ * When voting on a match closes: the team's window after kick-off
+ */
+export function motmClosesAt(playedAt: Date, votingHours: number): Date {
+  return new Date(playedAt.getTime() + votingHours * HOUR_MS)
+}
+
+/**
+ * Whether a match's poll takes votes at an instant: from kick-off until it closes
+ */
+export function isMotmOpen(playedAt: Date, votingHours: number, now = new Date()): boolean {
+  return now >= playedAt && now < motmClosesAt(playedAt, votingHours)
+}
+
+/**
+ * Votes per player, most first. A tie goes to whoever reached that many votes first,
+ * so the order doesn't change once voting closes.
+ */
+export function tallyMotmVotes(ballots: MotmBallot[]): MotmCount[] {
+  const counts = new Map<number, number>()
+  const reachedAt = new Map<number, number>()
+  const inOrder = [...ballots].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  for (const ballot of inOrder) {
+    counts.set(ballot.playerId, (counts.get(ballot.playerId) ?? 0) + 1)
+    reachedAt.set(ballot.playerId, ballot.createdAt.getTime())
+  }
+  return [...counts]
+    .map(([playerId, votes]) => ({ playerId, votes }))
+    .sort(
+      (a, b) =>
+        b.votes - a.votes ||
+        reachedAt.get(a.playerId)! - reachedAt.get(b.playerId)! ||
+        a.playerId - b.playerId,
+    )
+}
+
+/**
+ * The man of the match from a closed poll; null when nobody voted
+ */
+export function motmWinner(ballots: MotmBallot[]): number | null {
+  return tallyMotmVotes(ballots)[0]?.playerId ?? null
+}
+
+/**
+ * Check a vote: both players are in the match, nobody votes for themselves, and each
+ * participant votes once
+ *
+ * @throws Error naming the problem
+ */
+export function validateMotmVote(
+  voterId: number,
+  playerId: number,
+  participantIds: number[],
+  voterIds: number[],
+): void {
+  if (!participantIds.includes(voterId)) {
+    throw new Error('Only players in the match can vote')
+  }
+  if (voterIds.includes(voterId)) {
+    throw new Error('This player has already voted')
+  }
+  if (playerId === voterId) {
+    throw new Error("Players can't vote for themselves")
+  }
+  if (!participantIds.includes(playerId)) {
+    throw new Error(`Player ${playerId} didn't play in this match`)
+  }
+}
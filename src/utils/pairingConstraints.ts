@@ -0,0 +1,176 @@
+import type { Player } from './teamPairing'
+
+export type PairingConstraintType = 'TOGETHER' | 'APART' | 'LOCKED'
+
+/**
+ * A rule the pairing has to respect:
+ * - TOGETHER: playerId and otherPlayerId play on the same side
+ * - APART: playerId and otherPlayerId play on opposite sides
+ * - LOCKED: playerId always plays on the given side
+ */
+export interface PairingConstraint {
+  type: PairingConstraintType
+  playerId: number
+  otherPlayerId?: number | null
+  side?: number | null
+}
+
+/**
+ * Players linked by constraints. Everyone in sideA shares a side, everyone in sideB
+ * plays against them. lockedSide is the side sideA is forced onto, if any.
+ */
+export interface ConstraintBlock {
+  sideA: Player[]
+  sideB: Player[]
+  lockedSide: 1 | 2 | null
+}
+
+/**
+ * Keep only the constraints whose players are all in the current selection.
+ * A rule about someone who isn't playing this week simply doesn't apply.
+ */
+export function applicableConstraints(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+): PairingConstraint[] {
+  const ids = new Set(players.map((p) => p.id))
+  return constraints.filter((constraint) => {
+    if (!ids.has(constraint.playerId)) return false
+    if (constraint.type === 'LOCKED') return constraint.side === 1 || constraint.side === 2
+    return (
+      constraint.otherPlayerId != null &&
+      constraint.otherPlayerId !== constraint.playerId &&
+      ids.has(constraint.otherPlayerId)
+    )
+  })
+}
+
+/**
+ * IDs of every selected player who appears in an applicable constraint
+ */
+export function constrainedPlayerIds(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+): Set<number> {
+  const ids = new Set<number>()
+  for (const constraint of applicableConstraints(players, constraints)) {
+    ids.add(constraint.playerId)
+    if (constraint.type !== 'LOCKED') ids.add(constraint.otherPlayerId!)
+  }
+  return ids
+}
+
+/**
+ * Turn a constraint list into blocks of linked players plus the players left free.
+ *
+ * "Together" pairs are merged with union-find, then "apart" pairs two-colour the merged
+ * groups and locks pin a colour to a side. Any contradiction throws an Error naming the
+ * players involved, so callers never get a split that quietly breaks a rule.
+ */
+export function resolvePairingConstraints(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+): { blocks: ConstraintBlock[]; free: Player[] } {
+  const active = applicableConstraints(players, constraints)
+  const byId = new Map(players.map((p) => [p.id, p]))
+  const nameOf = (id: number) => byId.get(id)?.name ?? `Player ${id}`
+
+  // Union-find over "together" pairs
+  const parent = new Map<number, number>()
+  const find = (id: number): number => {
+    const next = parent.get(id) ?? id
+    if (next === id) return id
+    const root = find(next)
+    parent.set(id, root)
+    return root
+  }
+  for (const constraint of active) {
+    if (constraint.type === 'TOGETHER') {
+      parent.set(find(constraint.playerId), find(constraint.otherPlayerId!))
+    }
+  }
+
+  // "Apart" edges between together-groups
+  const apartEdges = new Map<number, number[]>()
+  const linkedRoots = new Set<number>()
+  for (const constraint of active) {
+    const root = find(constraint.playerId)
+    linkedRoots.add(root)
+    if (constraint.type === 'LOCKED') continue
+
+    const otherRoot = find(constraint.otherPlayerId!)
+    linkedRoots.add(otherRoot)
+    if (constraint.type !== 'APART') continue
+
+    if (root === otherRoot) {
+      throw new Error(
+        `${nameOf(constraint.playerId)} and ${nameOf(constraint.otherPlayerId!)} are set to play both together and apart`,
+      )
+    }
+    apartEdges.set(root, [...(apartEdges.get(root) ?? []), otherRoot])
+    apartEdges.set(otherRoot, [...(apartEdges.get(otherRoot) ?? []), root])
+  }
+
+  // Two-colour the together-groups; each connected component becomes one block
+  const colour = new Map<number, 0 | 1>()
+  const blockOf = new Map<number, number>()
+  const blockRoots: number[][] = []
+  for (const start of linkedRoots) {
+    if (colour.has(start)) continue
+    colour.set(start, 0)
+    const component: number[] = []
+    const queue = [start]
+    while (queue.length > 0) {
+      const root = queue.shift()!
+      component.push(root)
+      blockOf.set(root, blockRoots.length)
+      for (const neighbour of apartEdges.get(root) ?? []) {
+        const expected = colour.get(root) === 0 ? 1 : 0
+        if (!colour.has(neighbour)) {
+          colour.set(neighbour, expected)
+          queue.push(neighbour)
+        } else if (colour.get(neighbour) !== expected) {
+          const names = players.filter((p) => component.includes(find(p.id))).map((p) => p.name)
+          throw new Error(`The keep-apart rules between ${names.join(', ')} contradict each other`)
+        }
+      }
+    }
+    blockRoots.push(component)
+  }
+
+  const blocks: ConstraintBlock[] = blockRoots.map(() => ({
+    sideA: [],
+    sideB: [],
+    lockedSide: null,
+  }))
+  const free: Player[] = []
+  for (const player of players) {
+    const root = find(player.id)
+    const blockIndex = blockOf.get(root)
+    if (blockIndex === undefined) {
+      free.push(player)
+      continue
+    }
+    const block = blocks[blockIndex]!
+    if (colour.get(root) === 0) block.sideA.push(player)
+    else block.sideB.push(player)
+  }
+
+  // Locks pin a whole block to one orientation
+  for (const constraint of active) {
+    if (constraint.type !== 'LOCKED') continue
+    const root = find(constraint.playerId)
+    const block = blocks[blockOf.get(root)!]!
+    const side = constraint.side as 1 | 2
+    const sideForA: 1 | 2 = colour.get(root) === 0 ? side : side === 1 ? 2 : 1
+
+    if (block.lockedSide !== null && block.lockedSide !== sideForA) {
+      throw new Error(
+        `${nameOf(constraint.playerId)} is locked to side ${side}, which clashes with the other rules for their group`,
+      )
+    }
+    block.lockedSide = sideForA
+  }
+
+  return { blocks, free }
+}
@@ -0,0 +1,117 @@
+import type { Player } from './teamPairing'
+
+/**
+ * The sides of a previous match, as player IDs
+ */
+export interface LineupRecord {
+  team1: number[]
+  team2: number[]
+}
+
+/**
+ * Steer pairing away from teammates who played together recently.
+ * history is most recent first; tolerance is how many rating points the gap between
+ * the sides may grow by to get fresher teams.
+ */
+export interface FreshnessOptions {
+  history: LineupRecord[]
+  tolerance: number
+}
+
+// Only the last few matches count, and each one counts half as much as the one after it
+export const MAX_HISTORY = 5
+const HISTORY_DECAY = 0.5
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`
+}
+
+/**
+ * How strongly each pair of players should be kept apart: the sum over recent matches
+ * where they were teammates, weighted by how recent the match was
+ */
+export function teammateWeights(history: LineupRecord[]): Map<string, number> {
+  const weights = new Map<string, number>()
+  history.slice(0, MAX_HISTORY).forEach((lineup, age) => {
+    const weight = HISTORY_DECAY ** age
+    for (const side of [lineup.team1, lineup.team2]) {
+      for (let i = 0; i < side.length; i++) {
+        for (let j = i + 1; j < side.length; j++) {
+          const key = pairKey(side[i]!, side[j]!)
+          weights.set(key, (weights.get(key) ?? 0) + weight)
+        }
+      }
+    }
+  })
+  return weights
+}
+
+/**
+ * Cost of having player join team (excluding anyone in skip): the weight of every
+ * recent teammate pairing it would repeat
+ */
+export function repeatCost(
+  player: Player,
+  team: Player[],
+  weights: Map<string, number>,
+  skip?: Player,
+): number {
+  let cost = 0
+  for (const teammate of team) {
+    if (teammate.id === player.id || teammate === skip) continue
+    cost += weights.get(pairKey(player.id, teammate.id)) ?? 0
+  }
+  return cost
+}
+
+/**
+ * Teammate pairs in the new sides that also played in the last match, and how many of
+ * those were teammates then too
+ */
+export function countRepeatedTeammates(
+  team1: Array<{ id: number }>,
+  team2: Array<{ id: number }>,
+  last: LineupRecord,
+): { repeated: number; total: number } {
+  const lastSide = new Map<number, 1 | 2>()
+  for (const id of last.team1) lastSide.set(id, 1)
+  for (const id of last.team2) lastSide.set(id, 2)
+
+  let repeated = 0
+  let total = 0
+  for (const side of [team1, team2]) {
+    const returning = side.filter((p) => lastSide.has(p.id))
+    for (let i = 0; i < returning.length; i++) {
+      for (let j = i + 1; j < returning.length; j++) {
+        total++
+        if (lastSide.get(returning[i]!.id) === lastSide.get(returning[j]!.id)) repeated++
+      }
+    }
+  }
+  return { repeated, total }
+}
+
+/**
+ * Freshness settings offered in the pairing views: how many rating points of balance
+ * each level may give up to avoid repeating recent teammates
+ */
+export const FRESHNESS_LEVELS = [
+  { value: 'off', label: 'Off', tolerance: null },
+  { value: 'low', label: 'Low (gap +2)', tolerance: 2 },
+  { value: 'medium', label: 'Medium (gap +5)', tolerance: 5 },
+  { value: 'high', label: 'High (gap +10)', tolerance: 10 },
+] as const
+
+export type FreshnessLevel = (typeof FRESHNESS_LEVELS)[number]['value']
+
+/**
+ * Freshness options for a level and saved history, or undefined when there is nothing to do
+ */
+export function freshnessOptions(
+  level: FreshnessLevel,
+  history: LineupRecord[],
+): FreshnessOptions | undefined {
+  const tolerance = FRESHNESS_LEVELS.find((l) => l.value === level)?.tolerance ?? null
+  if (tolerance === null || history.length === 0) return undefined
+  return { history, tolerance }
+}
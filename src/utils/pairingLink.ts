@@ -0,0 +1,100 @@
+import type { PairingConstraint } from './pairingConstraints'
+import { parseSeed } from './seededRandom'
+
+/**
+ * Which button made the teams on screen: Generate in balanced or random mode, or Mix.
+ * Each runs a different search, so the same seed gives different teams under each.
+ */
+export type PairingRun = 'balanced' | 'random' | 'mix'
+
+const PAIRING_RUNS: PairingRun[] = ['balanced', 'random', 'mix']
+
+/**
+ * Everything a link needs to rebuild the teams on screen. settings holds the view's own
+ * query values that change the result (team size, handicap, freshness...).
+ */
+export interface SharedPairing {
+  run: PairingRun
+  playerIds: number[]
+  // None for results that don't draw on one (uneven sides)
+  seed: number | null
+  settings: Record<string, string>
+}
+
+// Query keys the link itself uses, on top of the view's settings
+export const PAIRING_LINK_KEYS = ['run', 'players', 'seed']
+
+/**
+ * The query values for a shared link
+ */
+export function pairingLinkQuery(shared: SharedPairing): Record<string, string> {
+  const query: Record<string, string> = {
+    ...shared.settings,
+    run: shared.run,
+    players: shared.playerIds.join(','),
+  }
+  if (shared.seed !== null) query.seed = String(shared.seed)
+  return query
+}
+
+/**
+ * Read a shared link back from a route query. settingKeys are the view's settings to pick
+ * up; checking their values is left to the view. Returns null unless the query names a
+ * run and at least two players, e.g. an old ?seed=-only link.
+ */
+export function parsePairingLink(
+  query: Record<string, unknown>,
+  settingKeys: string[],
+): SharedPairing | null {
+  const run = PAIRING_RUNS.find((r) => r === query.run)
+  if (!run || typeof query.players !== 'string') return null
+
+  const playerIds = query.players.split(',').map(Number)
+  if (playerIds.length < 2 || !playerIds.every((id) => Number.isInteger(id) && id > 0)) {
+    return null
+  }
+
+  const settings: Record<string, string> = {}
+  for (const key of settingKeys) {
+    const value = query[key]
+    if (typeof value === 'string') settings[key] = value
+  }
+  return { run, playerIds, seed: parseSeed(query.seed), settings }
+}
+
+/**
+ * Pairing rules as a compact query value: "T1-2" together, "A1-2" apart, "L1-2" player 1
+ * locked to side 2, joined with ".".
+ */
+export function formatConstraints(constraints: PairingConstraint[]): string {
+  return constraints
+    .map((c) =>
+      c.type === 'LOCKED'
+        ? `L${c.playerId}-${c.side}`
+        : `${c.type === 'TOGETHER' ? 'T' : 'A'}${c.playerId}-${c.otherPlayerId}`,
+    )
+    .join('.')
+}
+
+/**
+ * Read formatConstraints' output back, skipping anything malformed
+ */
+export function parseConstraints(value: string): PairingConstraint[] {
+  const constraints: PairingConstraint[] = []
+  for (const part of value.split('.')) {
+    const match = /^([TAL])(\d+)-(\d+)$/.exec(part)
+    if (!match) continue
+    const playerId = Number(match[2])
+    const other = Number(match[3])
+    if (match[1] === 'L') {
+      if (other === 1 || other === 2) constraints.push({ type: 'LOCKED', playerId, side: other })
+    } else {
+      constraints.push({
+        type: match[1] === 'T' ? 'TOGETHER' : 'APART',
+        playerId,
+        otherPlayerId: other,
+      })
+    }
+  }
+  return constraints
+}
@@ -0,0 +1,102 @@
+import { MAX_RATING, MIN_RATING } from './playerRatings'
+
+export const MIN_PEER_SCORE = 1
+export const MAX_PEER_SCORE = 10
+
+// Fewer votes than this don't suggest a rating; one or two friends shouldn't decide it
+export const MIN_PEER_VOTES = 5
+
+// Share of votes dropped from each end before averaging, so a grudge or a mate's
+// 10 can't drag the result
+export const PEER_TRIM_FRACTION = 0.2
+
+// Only votes from a player's most recent rated matches count, so the suggestion
+// follows current form
+export const PEER_RATING_MATCHES = 10
+
+/**
+ * A player's votes from their team-mates and opponents, as Player.peerRating returns
+ * it. Individual votes are never returned.
+ */
+export interface PeerRatingSummary {
+  votes: number
+  matches: number
+  // Trimmed mean on the 1-10 scale; null below the minimum number of votes
+  average: number | null
+  // The average on the 1-100 rating scale, for the owner to accept
+  suggestedRating: number | null
+  minimumVotes: number
+}
+
+/**
+ * The mean after dropping the given share of scores from each end. Always keeps at
+ * least one score; null when there are none.
+ */
+export function trimmedMean(scores: number[], trim = PEER_TRIM_FRACTION): number | null {
+  if (scores.length === 0) return null
+  const sorted = [...scores].sort((a, b) => a - b)
+  const drop = Math.min(Math.floor(sorted.length * trim), Math.floor((sorted.length - 1) / 2))
+  const kept = sorted.slice(drop, sorted.length - drop)
+  return kept.reduce((sum, score) => sum + score, 0) / kept.length
+}
+
+/**
+ * Turn a player's votes into a suggested rating: a trimmed mean of the 1-10 scores,
+ * scaled to 1-100, once there are enough of them
+ */
+export function summarizePeerRatings(
+  votes: Array<{ matchId: number; score: number }>,
+  minVotes = MIN_PEER_VOTES,
+): PeerRatingSummary {
+  const matches = new Set(votes.map((v) => v.matchId)).size
+  const mean = votes.length >= minVotes ? trimmedMean(votes.map((v) => v.score)) : null
+  if (mean === null) {
+    return {
+      votes: votes.length,
+      matches,
+      average: null,
+      suggestedRating: null,
+      minimumVotes: minVotes,
+    }
+  }
+  return {
+    votes: votes.length,
+    matches,
+    average: Math.round(mean * 10) / 10,
+    suggestedRating: Math.max(MIN_RATING, Math.min(MAX_RATING, Math.round(mean * 10))),
+    minimumVotes: minVotes,
+  }
+}
+
+/**
+ * Check a participant's votes for a match: whole scores from 1 to 10 for other
+ * participants, each rated at most once
+ *
+ * @throws Error naming the first problem
+ */
+export function validatePeerVotes(
+  raterId: number,
+  participantIds: number[],
+  votes: Array<{ playerId: number; score: number }>,
+): void {
+  const participants = new Set(participantIds)
+  if (!participants.has(raterId)) {
+    throw new Error('Only players in the match can rate it')
+  }
+  const seen = new Set<number>()
+  for (const { playerId, score } of votes) {
+    if (playerId === raterId) {
+      throw new Error("Players can't rate themselves")
+    }
+    if (!participants.has(playerId)) {
+      throw new Error(`Player ${playerId} didn't play in this match`)
+    }
+    if (seen.has(playerId)) {
+      throw new Error(`Player ${playerId} is rated more than once`)
+    }
+    if (!Number.isInteger(score) || score < MIN_PEER_SCORE || score > MAX_PEER_SCORE) {
+      throw new Error(`Scores must be whole numbers from ${MIN_PEER_SCORE} to ${MAX_PEER_SCORE}`)
+    }
+    seen.add(playerId)
+  }
+}
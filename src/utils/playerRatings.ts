@@ -0,0 +1,86 @@
+import type { Player, Position } from './teamPairing'
+
+/**
+ * A user-defined rating attribute (e.g. pace, passing) and how much it counts
+ * towards a player's overall rating
+ */
+export interface RatingAttribute {
+  id: number
+  name: string
+  weight: number
+}
+
+/**
+ * A player's score for one attribute, as returned on Player.attributes
+ */
+export interface PlayerAttributeValue {
+  attributeId: number
+  name: string
+  weight: number
+  value: number
+}
+
+export const MIN_RATING = 1
+export const MAX_RATING = 100
+
+/**
+ * Weighted average of a player's attribute scores, rounded and clamped to 1-100.
+ * Attributes with no score (or zero weight) are left out. Returns null when nothing
+ * counts, so callers can fall back to a manually entered rating.
+ */
+export function calculateOverallRating(
+  values: Array<{ weight: number; value: number }>,
+): number | null {
+  const counted = values.filter((v) => v.weight > 0)
+  const totalWeight = counted.reduce((sum, v) => sum + v.weight, 0)
+  if (totalWeight === 0) return null
+
+  const weighted = counted.reduce((sum, v) => sum + v.weight * v.value, 0) / totalWeight
+  return Math.max(MIN_RATING, Math.min(MAX_RATING, Math.round(weighted)))
+}
+
+/**
+ * Attribute scores keyed by name, the shape teamPairing expects on Player.attributes
+ */
+export function attributeScores(values: PlayerAttributeValue[] = []): Record<string, number> {
+  return Object.fromEntries(values.map((v) => [v.name, v.value]))
+}
+
+/**
+ * Attribute weights keyed by name, collected from a set of players' attribute values
+ */
+export function attributeWeights(
+  players: Array<{ attributes?: PlayerAttributeValue[] | null }>,
+): Record<string, number> {
+  const weights: Record<string, number> = {}
+  for (const player of players) {
+    for (const v of player.attributes ?? []) weights[v.name] = v.weight
+  }
+  return weights
+}
+
+/**
+ * A player as the API returns it: attribute scores as a list rather than keyed by name
+ */
+export interface RatedPlayer {
+  id: number
+  name: string
+  rating: number
+  position?: Position | null
+  secondaryPosition?: Position | null
+  attributes?: PlayerAttributeValue[] | null
+}
+
+/**
+ * Convert an API player into the shape the pairing algorithms take
+ */
+export function toPairingPlayer(player: RatedPlayer): Player {
+  return {
+    id: player.id,
+    name: player.name,
+    rating: player.rating,
+    position: player.position,
+    secondaryPosition: player.secondaryPosition,
+    attributes: player.attributes?.length ? attributeScores(player.attributes) : undefined,
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * A stored match as the stats need it: who played on which side, the result and events
+ */
+export interface StatsMatch {
+  team1Score: number | null
+  team2Score: number | null
+  players: Array<{ playerId: number; side: number; rating: number }>
+  events: Array<{ playerId: number; type: string }>
+  // Man of the match, once voting has closed
+  motmPlayerId?: number | null
+}
+
+export interface TeammateCount {
+  playerId: number
+  matches: number
+}
+
+export interface PlayerStatsSummary {
+  // Saved lineups the player was in, substitutes included
+  appearances: number
+  // Only matches with a recorded result count towards these
+  wins: number
+  draws: number
+  losses: number
+  // Wins over matches with a result, from 0 to 1; null before any result
+  winRate: number | null
+  goals: number
+  assists: number
+  ownGoals: number
+  cleanSheets: number
+  // Matches the player was voted man of the match
+  motmAwards: number
+  // Average rating of everyone who lined up on the player's side; null without teammates
+  averageTeammateRating: number | null
+  // Most frequent teammates, most matches first
+  frequentTeammates: TeammateCount[]
+}
+
+const FREQUENT_TEAMMATES = 5
+
+/**
+ * Appearances, results, events and teammates for one player across stored matches.
+ * Matches the player wasn't in are ignored.
+ */
+export function calculatePlayerStats(playerId: number, matches: StatsMatch[]): PlayerStatsSummary {
+  const stats: PlayerStatsSummary = {
+    appearances: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    winRate: null,
+    goals: 0,
+    assists: 0,
+    ownGoals: 0,
+    cleanSheets: 0,
+    motmAwards: 0,
+    averageTeammateRating: null,
+    frequentTeammates: [],
+  }
+  const teammateMatches = new Map<number, number>()
+  let teammateRatingSum = 0
+  let teammateCount = 0
+
+  for (const match of matches) {
+    const entry = match.players.find((p) => p.playerId === playerId)
+    if (!entry) continue
+    stats.appearances++
+
+    if (match.team1Score !== null && match.team2Score !== null) {
+      const [scored, conceded] =
+        entry.side === 1
+          ? [match.team1Score, match.team2Score]
+          : [match.team2Score, match.team1Score]
+      if (scored > conceded) stats.wins++
+      else if (scored < conceded) stats.losses++
+      else stats.draws++
+    }
+
+    for (const event of match.events) {
+      if (event.playerId !== playerId) continue
+      if (event.type === 'GOAL') stats.goals++
+      if (event.type === 'ASSIST') stats.assists++
+      if (event.type === 'OWN_GOAL') stats.ownGoals++
+      if (event.type === 'CLEAN_SHEET') stats.cleanSheets++
+    }
+    if (match.motmPlayerId === playerId) stats.motmAwards++
+
+    for (const teammate of match.players) {
+      if (teammate.side !== entry.side || teammate.playerId === playerId) continue
+      teammateMatches.set(teammate.playerId, (teammateMatches.get(teammate.playerId) ?? 0) + 1)
+      teammateRatingSum += teammate.rating
+      teammateCount++
+    }
+  }
+
+  const decided = stats.wins + stats.draws + stats.losses
+  if (decided > 0) stats.winRate = Math.round((stats.wins / decided) * 1000) / 1000
+  if (teammateCount > 0) {
+    stats.averageTeammateRating = Math.round((teammateRatingSum / teammateCount) * 10) / 10
+  }
+  stats.frequentTeammates = [...teammateMatches]
+    .map(([id, count]) => ({ playerId: id, matches: count }))
+    .sort((a, b) => b.matches - a.matches || a.playerId - b.playerId)
+    .slice(0, FREQUENT_TEAMMATES)
+
+  return stats
+}
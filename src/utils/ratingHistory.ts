@@ -0,0 +1,51 @@
+export type RatingChangeSource = 'MANUAL' | 'ATTRIBUTES' | 'MATCH_RESULT' | 'PEER_RATINGS'
+
+export const RATING_SOURCE_LABELS: Record<RatingChangeSource, string> = {
+  MANUAL: 'Edited',
+  ATTRIBUTES: 'Attributes',
+  MATCH_RESULT: 'Match result',
+  PEER_RATINGS: 'Peer ratings',
+}
+
+/**
+ * One entry in a player's rating history, as Player.ratingHistory returns it (oldest first)
+ */
+export interface RatingHistoryEntry {
+  id: number
+  oldRating: number
+  newRating: number
+  source?: RatingChangeSource
+  createdAt: string
+  changedBy?: { id: number; username: string } | null
+}
+
+/**
+ * Ratings to plot: where the history starts, then the rating after each change
+ */
+export function ratingSeries(history: RatingHistoryEntry[]): number[] {
+  if (history.length === 0) return []
+  return [history[0]!.oldRating, ...history.map((entry) => entry.newRating)]
+}
+
+/**
+ * SVG polyline points for values spread across a width x height box. The lowest value
+ * sits on the bottom edge and the highest on the top; a flat line is drawn halfway up.
+ */
+export function chartPoints(values: number[], width: number, height: number): string {
+  if (values.length === 0) return ''
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const step = values.length > 1 ? width / (values.length - 1) : 0
+
+  return values
+    .map((value, index) => {
+      const x = values.length > 1 ? index * step : width / 2
+      const y = max === min ? height / 2 : height - ((value - min) / (max - min)) * height
+      return `${round(x)},${round(y)}`
+    })
+    .join(' ')
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
@@ -0,0 +1,249 @@
+import type { Player } from './teamPairing'
+
+export interface RotationOptions {
+  // Match length in minutes
+  matchLength: number
+  // Minutes between rotations
+  interval: number
+  // Players each side has on the pitch; defaults to the smaller side's headcount
+  playersOnPitch?: number
+}
+
+/**
+ * One stretch of the match between two rotations
+ */
+export interface RotationPeriod {
+  // Minute the period starts and ends (end is exclusive)
+  start: number
+  end: number
+  // Who is on the pitch and who is on the bench for each side
+  team1OnPitch: Player[]
+  team1Bench: Player[]
+  team2OnPitch: Player[]
+  team2Bench: Player[]
+  // Gap between the on-pitch rating totals for this period
+  ratingDifference: number
+}
+
+export interface RotationSchedule {
+  periods: RotationPeriod[]
+  playersOnPitch: number
+  // Minutes each player spends on the pitch, by player ID
+  minutesPlayed: Record<number, number>
+  // Largest ratingDifference of any period
+  maxRatingDifference: number
+}
+
+// Most rotation periods a schedule can have, so a typo can't build thousands of columns
+const MAX_PERIODS = 60
+
+// Cap on swaps applied when evening out the periods, which keeps long matches quick
+const MAX_BALANCE_ROUNDS = 100
+
+/**
+ * Plan who is on the pitch for every rotation period of a match.
+ *
+ * Playing time comes first: each period the players with the most minutes so far sit out,
+ * so minutes never drift more than one rotation apart within a side. When several players
+ * are level on minutes, whoever is already on stays on unless swapping narrows the gap
+ * between the two sides' on-pitch ratings. A final pass trades players' periods within a
+ * side to even out the most lopsided periods without changing anyone's minutes.
+ * The result is deterministic for the same sides and options.
+ */
+export function buildRotationSchedule(
+  team1: Player[],
+  team2: Player[],
+  options: RotationOptions,
+): RotationSchedule {
+  const { matchLength, interval } = options
+  const playersOnPitch = options.playersOnPitch ?? Math.min(team1.length, team2.length)
+
+  if (!(matchLength > 0) || !(interval > 0)) {
+    throw new Error('Match length and rotation interval must be greater than zero')
+  }
+  if (interval > matchLength) {
+    throw new Error('The rotation interval cannot be longer than the match')
+  }
+  if (matchLength / interval > MAX_PERIODS) {
+    throw new Error(`Use a longer rotation interval (at most ${MAX_PERIODS} rotations per match)`)
+  }
+  if (
+    !Number.isInteger(playersOnPitch) ||
+    playersOnPitch < 1 ||
+    playersOnPitch > Math.min(team1.length, team2.length)
+  ) {
+    throw new Error('Both sides need at least as many players as are on the pitch')
+  }
+
+  const minutesPlayed: Record<number, number> = {}
+  for (const player of [...team1, ...team2]) minutesPlayed[player.id] = 0
+
+  // Greedy pass: fairest lineups period by period
+  const lineups: Array<{ start: number; end: number; sides: [Player[], Player[]] }> = []
+  for (let start = 0; start < matchLength; start += interval) {
+    const end = Math.min(start + interval, matchLength)
+    const previous = lineups[lineups.length - 1]?.sides
+    const starts = [
+      startLineup(team1, playersOnPitch, minutesPlayed, previous?.[0]),
+      startLineup(team2, playersOnPitch, minutesPlayed, previous?.[1]),
+    ] as const
+    const totals = starts.map(({ chosen }) => sumRatings([...chosen]))
+
+    // Swap players level on minutes in and out while it narrows the rating gap
+    for (;;) {
+      const gap = totals[0]! - totals[1]!
+      let best: { side: 0 | 1; out: Player; in: Player; gap: number } | null = null
+      for (const side of [0, 1] as const) {
+        const { chosen, level } = starts[side]
+        for (const out of level) {
+          if (!chosen.has(out)) continue
+          for (const candidate of level) {
+            if (chosen.has(candidate)) continue
+            const delta = candidate.rating - out.rating
+            const next = gap + (side === 0 ? delta : -delta)
+            if (Math.abs(next) < Math.abs(best ? best.gap : gap)) {
+              best = { side, out, in: candidate, gap: next }
+            }
+          }
+        }
+      }
+      if (!best) break
+      starts[best.side].chosen.delete(best.out)
+      starts[best.side].chosen.add(best.in)
+      totals[best.side]! += best.in.rating - best.out.rating
+    }
+
+    // Keep each lineup in squad order so the timeline rows stay put
+    const sides: [Player[], Player[]] = [
+      team1.filter((p) => starts[0].chosen.has(p)),
+      team2.filter((p) => starts[1].chosen.has(p)),
+    ]
+    for (const player of [...sides[0], ...sides[1]]) {
+      minutesPlayed[player.id]! += end - start
+    }
+    lineups.push({ start, end, sides })
+  }
+
+  // Greedy choices can leave late periods lopsided; even them out without moving any minutes
+  balanceLineups(lineups, [team1, team2])
+
+  const periods: RotationPeriod[] = lineups.map(({ start, end, sides }) => {
+    const onPitch = new Set([...sides[0], ...sides[1]].map((p) => p.id))
+    return {
+      start,
+      end,
+      team1OnPitch: sides[0],
+      team1Bench: team1.filter((p) => !onPitch.has(p.id)),
+      team2OnPitch: sides[1],
+      team2Bench: team2.filter((p) => !onPitch.has(p.id)),
+      ratingDifference: Math.abs(sumRatings(sides[0]) - sumRatings(sides[1])),
+    }
+  })
+
+  return {
+    periods,
+    playersOnPitch,
+    minutesPlayed,
+    maxRatingDifference: Math.max(...periods.map((p) => p.ratingDifference)),
+  }
+}
+
+/**
+ * Swap two players' periods within a side (A plays period i instead of j, B plays j
+ * instead of i) while it lowers the largest per-period rating gap, or the sum of squared
+ * gaps. Only periods of the same length are swapped, so nobody's minutes change.
+ */
+function balanceLineups(
+  lineups: Array<{ start: number; end: number; sides: [Player[], Player[]] }>,
+  squads: [Player[], Player[]],
+) {
+  const totals = lineups.map(({ sides }) => [sumRatings(sides[0]), sumRatings(sides[1])])
+  const gaps = () => totals.map(([total1, total2]) => Math.abs(total1! - total2!))
+  const score = (values: number[]): [number, number] => [
+    Math.max(...values),
+    values.reduce((sum, gap) => sum + gap * gap, 0),
+  ]
+  const isBetter = (a: [number, number], b: [number, number]) =>
+    a[0] < b[0] || (a[0] === b[0] && a[1] < b[1])
+
+  for (let round = 0; round < MAX_BALANCE_ROUNDS; round++) {
+    const current = gaps()
+    const worst = current.indexOf(Math.max(...current))
+    let best = score(current)
+    let bestSwap: { side: 0 | 1; i: number; j: number; a: Player; b: Player } | null = null
+
+    for (const side of [0, 1] as const) {
+      const onPitch = lineups.map(({ sides }) => new Set(sides[side]))
+      for (let i = 0; i < lineups.length; i++) {
+        for (let j = i + 1; j < lineups.length; j++) {
+          // Only swaps that touch the most lopsided period can lower the largest gap
+          if (i !== worst && j !== worst) continue
+          const periodI = lineups[i]!
+          const periodJ = lineups[j]!
+          if (periodI.end - periodI.start !== periodJ.end - periodJ.start) continue
+
+          for (const a of periodI.sides[side]) {
+            if (onPitch[j]!.has(a)) continue
+            for (const b of periodJ.sides[side]) {
+              if (onPitch[i]!.has(b) || a.rating === b.rating) continue
+
+              const delta = b.rating - a.rating
+              const next = [...current]
+              const sign = side === 0 ? 1 : -1
+              next[i] = Math.abs(totals[i]![0]! - totals[i]![1]! + sign * delta)
+              next[j] = Math.abs(totals[j]![0]! - totals[j]![1]! - sign * delta)
+              const candidate = score(next)
+              if (isBetter(candidate, best)) {
+                best = candidate
+                bestSwap = { side, i, j, a, b }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    if (!bestSwap) break
+    const { side, i, j, a, b } = bestSwap
+    const periodI = lineups[i]!
+    const periodJ = lineups[j]!
+    periodI.sides[side] = squads[side].filter(
+      (p) => p.id === b.id || (p.id !== a.id && periodI.sides[side].includes(p)),
+    )
+    periodJ.sides[side] = squads[side].filter(
+      (p) => p.id === a.id || (p.id !== b.id && periodJ.sides[side].includes(p)),
+    )
+    totals[i]![side]! += b.rating - a.rating
+    totals[j]![side]! += a.rating - b.rating
+  }
+}
+
+/**
+ * Opening lineup for one side this period: players behind on minutes are certain to play,
+ * those ahead sit out, and the open places go to players level on minutes at the cut-off,
+ * preferring whoever is already on so fewer changes are needed. level is the group the
+ * open places can be swapped within without hurting anyone's playing time.
+ */
+function startLineup(
+  side: Player[],
+  playersOnPitch: number,
+  minutesPlayed: Record<number, number>,
+  previous: Player[] = [],
+): { chosen: Set<Player>; level: Player[] } {
+  const byMinutes = [...side].sort((a, b) => minutesPlayed[a.id]! - minutesPlayed[b.id]!)
+  const cutoff = minutesPlayed[byMinutes[playersOnPitch - 1]!.id]!
+  const certain = byMinutes.filter((p) => minutesPlayed[p.id]! < cutoff)
+  const level = byMinutes.filter((p) => minutesPlayed[p.id] === cutoff)
+  const stayingOn = [...level].sort(
+    (a, b) => Number(previous.includes(b)) - Number(previous.includes(a)),
+  )
+
+  return {
+    chosen: new Set([...certain, ...stayingOn.slice(0, playersOnPitch - certain.length)]),
+    level,
+  }
+}
+
+function sumRatings(players: Player[]): number {
+  return players.reduce((sum, p) => sum + p.rating, 0)
+}
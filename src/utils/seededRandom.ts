@@ -0,0 +1,43 @@
+/**
+ * A source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Seeds are unsigned 32-bit integers so they fit in a URL and survive a round trip
+ * through JSON without losing precision
+ */
+export const MAX_SEED = 0xffffffff
+
+/**
+ * Deterministic PRNG (mulberry32): the same seed always yields the same sequence,
+ * on any device, so a shared seed reproduces a pairing exactly
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh seed. This is the only place that reaches for Math.random;
+ * everything downstream draws from a PRNG built from the seed.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1))
+}
+
+/**
+ * Read a seed from user input (e.g. a ?seed= query value).
+ * Returns null for anything that isn't a whole number in range.
+ */
+export function parseSeed(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) return null
+  const seed = Number(value.trim())
+  return seed <= MAX_SEED ? seed : null
+}
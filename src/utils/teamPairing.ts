@@ -1,7 +1,31 @@
+import {
+  constrainedPlayerIds,
+  resolvePairingConstraints,
+  type ConstraintBlock,
+  type PairingConstraint,
+} from './pairingConstraints'
+import { createSeededRandom, generateSeed, MAX_SEED, type RandomSource } from './seededRandom'
+import { repeatCost, teammateWeights, type FreshnessOptions } from './pairingHistory'
+
+export type Position = 'GK' | 'DEF' | 'MID' | 'FWD'
+
+export const POSITIONS: Position[] = ['GK', 'DEF', 'MID', 'FWD']
+
+export const POSITION_LABELS: Record<Position, string> = {
+  GK: 'Goalkeeper',
+  DEF: 'Defender',
+  MID: 'Midfielder',
+  FWD: 'Forward',
+}
+
 export interface Player {
   id: number
   name: string
   rating: number
+  position?: Position | null
+  secondaryPosition?: Position | null
+  // Per-attribute scores (e.g. { pace: 80, passing: 65 }); rating is their weighted overall
+  attributes?: Record<string, number>
 }
 
 export interface SubstitutePair {
@@ -12,36 +36,94 @@ export interface SubstitutePair {
 export interface TeamPair {
   team1: Player[]
   team2: Player[]
+  // Gap between the on-pitch rating totals, or between the effective strengths for
+  // uneven sides
   ratingDifference: number
+  // Absolute gap between the sides' totals for each rating attribute, when players have them
+  attributeDifferences?: Record<string, number>
+  // True when the exact solver proved no other split has a smaller rating difference
+  isOptimal: boolean
   substituteInfo?: {
     teamWithSub: 1 | 2
     substitutePair: SubstitutePair
   }
+  // Seed the random search (or the exact solver's tie-breaks) ran from; passing it back
+  // in reproduces this exact pair. Absent when the result is deterministic (e.g. uneven sides).
+  seed?: number
+  // Present when an odd squad was split N v N+1 instead of using a substitute: the
+  // handicap the sides were balanced with (see effectiveStrength)
+  handicap?: number
+}
+
+/**
+ * Result of splitting a pool into any number of teams (see balanceIntoTeams)
+ */
+export interface TeamSplit {
+  teams: Player[][]
+  // Rating total of each team, in the same order as teams
+  totals: number[]
+  // Strongest team total minus weakest team total
+  ratingSpread: number
+  // Seed the shuffled deals ran from; passing it back in reproduces this exact split
+  seed: number
 }
 
+export type BalanceMode = 'exact' | 'heuristic'
+
+export interface PairingOptions {
+  // 'exact' searches every equal-size split; 'heuristic' uses the greedy shuffle search
+  mode?: BalanceMode
+  // Largest squad the exact solver will take on before falling back to the heuristic
+  exactThreshold?: number
+  // Together/apart/locked rules every generated split must respect
+  constraints?: PairingConstraint[]
+  // How much each rating attribute counts when evening out attributes; defaults to 1 each
+  attributeWeights?: Record<string, number>
+  // Seed for the random search. The same seed and players always give the same teams;
+  // when omitted a fresh one is generated and returned on the result.
+  seed?: number
+  // Recent lineups to avoid repeating, and how much rating gap that may cost
+  freshness?: FreshnessOptions
+  // Split odd squads N v N+1 instead of benching a substitute
+  unevenSides?: UnevenSidesOptions
+}
+
+export interface UnevenSidesOptions {
+  // Rating points each missing player costs the short side, on top of playing with their
+  // own average in that slot; 0 means the sides just need equal average ratings
+  handicap: number
+}
+
+/**
+ * Largest number of players the exact solver handles by default.
+ * Covers the 10-22 player squads the app is used for.
+ */
+export const EXACT_SOLVER_MAX_PLAYERS = 22
+
 /**
- * Balance teams by distributing players to minimize rating difference
+ * Balance teams by distributing players to minimize rating difference.
+ * When players have positions, each position is split as evenly as possible first.
+ * Constraint blocks (together/apart/locked) are placed before anyone else.
+ * Then rating attributes are evened out with swaps that don't widen the rating gap, and
+ * with freshness options, recent teammates are split up within the allowed tolerance.
  */
-export function balanceTeams(players: Player[]): TeamPair {
+export function balanceTeams(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+  attributeWeights?: Record<string, number>,
+  freshness?: FreshnessOptions,
+): TeamPair {
   if (players.length < 2) {
     throw new Error('Need at least 2 players to create teams')
   }
 
-  const isOddNumber = players.length % 2 === 1
-  let playersToBalance = [...players]
-  let substitutePlayer: Player | null = null
-
-  // If odd number, remove one player to be the substitute
-  if (isOddNumber) {
-    // Sort by rating to find a good substitute candidate (middle range)
-    const sortedByRating = [...players].sort((a, b) => b.rating - a.rating)
-    const middleIndex = Math.floor(sortedByRating.length / 2)
-    substitutePlayer = sortedByRating[middleIndex] || null
-    playersToBalance = players.filter((p) => p.id !== substitutePlayer?.id)
-  }
+  const { playersToBalance, substitutePlayer } = splitOffSubstitute(players, constraints)
+  const { blocks, free } = resolvePairingConstraints(playersToBalance, constraints)
 
   // Sort players by rating (highest first) for balancing
-  const sortedPlayers = playersToBalance.sort((a, b) => b.rating - a.rating)
+  const sortedPlayers = free.sort((a, b) => b.rating - a.rating)
+  const groups = groupByPosition(sortedPlayers)
+  const teamSize = groups.length > 1 || blocks.length > 0 ? playersToBalance.length / 2 : Infinity
 
   const team1: Player[] = []
   const team2: Player[] = []
@@ -49,24 +131,659 @@ export function balanceTeams(players: Player[]): TeamPair {
   let team1Rating = 0
   let team2Rating = 0
 
-  // Distribute players using a greedy approach
-  for (const player of sortedPlayers) {
-    if (team1Rating <= team2Rating) {
-      team1.push(player)
-      team1Rating += player.rating
-    } else {
-      team2.push(player)
-      team2Rating += player.rating
+  // Place constraint blocks first (locked ones, then strongest), picking the orientation
+  // that keeps the sides closest while still leaving room on both
+  const orderedBlocks = [...blocks].sort(
+    (a, b) =>
+      Number(b.lockedSide !== null) - Number(a.lockedSide !== null) ||
+      sumRatings([...b.sideA, ...b.sideB]) - sumRatings([...a.sideA, ...a.sideB]),
+  )
+  for (const block of orderedBlocks) {
+    const orientations = blockOrientations(block).filter(
+      ({ onTeam1, onTeam2 }) =>
+        team1.length + onTeam1.length <= teamSize && team2.length + onTeam2.length <= teamSize,
+    )
+    if (orientations.length === 0) {
+      throw new Error(unequalSidesMessage)
     }
+
+    const best = orientations.reduce((bestSoFar, current) =>
+      Math.abs(
+        team1Rating + sumRatings(current.onTeam1) - team2Rating - sumRatings(current.onTeam2),
+      ) <
+      Math.abs(
+        team1Rating + sumRatings(bestSoFar.onTeam1) - team2Rating - sumRatings(bestSoFar.onTeam2),
+      )
+        ? current
+        : bestSoFar,
+    )
+    team1.push(...best.onTeam1)
+    team2.push(...best.onTeam2)
+    team1Rating += sumRatings(best.onTeam1)
+    team2Rating += sumRatings(best.onTeam2)
+  }
+
+  // Distribute players using a greedy approach, one position group at a time
+  for (const group of groups) {
+    const groupCap = groups.length > 1 ? Math.ceil(group.length / 2) : Infinity
+    let groupInTeam1 = 0
+    let groupInTeam2 = 0
+
+    for (const player of group) {
+      const team1HasRoom = groupInTeam1 < groupCap && team1.length < teamSize
+      const team2HasRoom = groupInTeam2 < groupCap && team2.length < teamSize
+
+      // Team size is a hard limit; the per-position cap only gives way when both sides hit it
+      const toTeam1 =
+        team1HasRoom && team2HasRoom
+          ? team1Rating <= team2Rating
+          : team1HasRoom || (!team2HasRoom && team1.length < teamSize)
+
+      if (toTeam1) {
+        team1.push(player)
+        team1Rating += player.rating
+        groupInTeam1++
+      } else {
+        team2.push(player)
+        team2Rating += player.rating
+        groupInTeam2++
+      }
+    }
+  }
+
+  balanceAttributes(team1, team2, free, attributeWeights)
+  freshenTeams(team1, team2, free, freshness)
+  return finalizeTeamPair(team1, team2, substitutePlayer, false)
+}
+
+/**
+ * Balance teams with an exact search over rating sums.
+ *
+ * Runs a subset-sum DP with an equal-size constraint, so the returned split has the
+ * smallest possible rating difference for the on-pitch players. When players have
+ * positions, every position is split as evenly as possible and the rating difference
+ * is minimised within that constraint (the position spread is relaxed only if the
+ * pairing constraints leave no other way to get equal sides). With an odd headcount
+ * the substitute is picked the same way as balanceTeams before the search runs.
+ * Rating attributes are then evened out without giving up any of the rating balance.
+ * Freshness options may trade some of it (up to their tolerance) to split up recent
+ * teammates; the result is only marked optimal if the gap is still the smallest possible.
+ * With a random source the players are considered in shuffled order, so it picks which of
+ * several equally good splits comes back; without one the same split always does.
+ */
+export function balanceTeamsExact(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+  attributeWeights?: Record<string, number>,
+  freshness?: FreshnessOptions,
+  random?: RandomSource,
+): TeamPair {
+  if (players.length < 2) {
+    throw new Error('Need at least 2 players to create teams')
+  }
+  if (!players.every((p) => Number.isInteger(p.rating) && p.rating >= 0)) {
+    throw new Error('Exact balancing requires whole-number, non-negative ratings')
+  }
+
+  const pool = random ? shuffleArray(players, random) : players
+  const { playersToBalance, substitutePlayer } = splitOffSubstitute(pool, constraints)
+  const { blocks, free } = resolvePairingConstraints(playersToBalance, constraints)
+  const groups = buildSplitGroups(free, blocks)
+  const teamSize = playersToBalance.length / 2
+
+  const playersTotal = sumRatings(playersToBalance)
+
+  const team1 =
+    findOptimalSplit(groups, teamSize, playersTotal / 2) ??
+    findOptimalSplit(
+      groups.map((group) => ({ ...group, evenSplit: false })),
+      teamSize,
+      playersTotal / 2,
+    )
+  if (!team1) {
+    throw new Error(unequalSidesMessage)
+  }
+
+  const team1Ids = new Set(team1.map((p) => p.id))
+  const team2 = playersToBalance.filter((p) => !team1Ids.has(p.id))
+
+  const optimalGap = Math.abs(sumRatings(team1) - sumRatings(team2))
+  balanceAttributes(team1, team2, free, attributeWeights)
+  freshenTeams(team1, team2, free, freshness)
+  const isOptimal = Math.abs(sumRatings(team1) - sumRatings(team2)) === optimalGap
+  return finalizeTeamPair(team1, team2, substitutePlayer, isOptimal)
+}
+
+/**
+ * Split an odd squad N v N+1 with no substitute. Team 1 is the short side.
+ *
+ * The sides are level when their effective strengths match, so the short side needs a
+ * higher average the bigger the handicap. Uses the exact solver, so ratings must be
+ * whole numbers; positions and pairing constraints are honoured as in balanceTeamsExact,
+ * but attributes and freshness are not applied since their swaps assume equal sides.
+ */
+export function balanceUnevenTeams(
+  players: Player[],
+  handicap: number,
+  constraints: PairingConstraint[] = [],
+): TeamPair {
+  if (players.length < 3 || players.length % 2 === 0) {
+    throw new Error('Uneven sides need an odd number of players, at least 3')
   }
+  if (!players.every((p) => Number.isInteger(p.rating) && p.rating >= 0)) {
+    throw new Error('Exact balancing requires whole-number, non-negative ratings')
+  }
+  if (!Number.isFinite(handicap) || handicap < 0) {
+    throw new Error('The handicap must be zero or more')
+  }
+
+  const { blocks, free } = resolvePairingConstraints(players, constraints)
+  const groups = buildSplitGroups(free, blocks)
+  const shortSize = Math.floor(players.length / 2)
+
+  // Short total S is level when S * (n + 1) / n - handicap = total - S
+  const target = ((sumRatings(players) + handicap) * shortSize) / (2 * shortSize + 1)
+
+  const team1 =
+    findOptimalSplit(groups, shortSize, target) ??
+    findOptimalSplit(
+      groups.map((group) => ({ ...group, evenSplit: false })),
+      shortSize,
+      target,
+    )
+  if (!team1) {
+    throw new Error(
+      `Pairing constraints cannot be satisfied: they leave no way to split the sides ${shortSize} v ${shortSize + 1}`,
+    )
+  }
+
+  const team1Ids = new Set(team1.map((p) => p.id))
+  const team2 = players.filter((p) => !team1Ids.has(p.id))
+  const pair = finalizeTeamPair(team1, team2, null, true)
+  return {
+    ...pair,
+    ratingDifference: Math.round(
+      Math.abs(
+        effectiveStrength(team1, team2, handicap) - effectiveStrength(team2, team1, handicap),
+      ),
+    ),
+    handicap,
+  }
+}
+
+/**
+ * A side's strength measured against the other side's headcount. The bigger side's is its
+ * rating total; a short side plays each missing slot as a player of its own average,
+ * minus the handicap.
+ */
+export function effectiveStrength(team: Player[], otherTeam: Player[], handicap: number): number {
+  const missing = Math.max(0, otherTeam.length - team.length)
+  if (missing === 0 || team.length === 0) return sumRatings(team)
+  const average = sumRatings(team) / team.length
+  return Math.round((sumRatings(team) + missing * (average - handicap)) * 10) / 10
+}
+
+/**
+ * Check whether the exact solver can take this squad under the given options
+ */
+export function canSolveExactly(players: Player[], options: PairingOptions = {}): boolean {
+  const threshold = options.exactThreshold ?? EXACT_SOLVER_MAX_PLAYERS
+  return (
+    (options.mode ?? 'exact') === 'exact' &&
+    players.length <= threshold &&
+    players.every((p) => Number.isInteger(p.rating) && p.rating >= 0)
+  )
+}
+
+const unequalSidesMessage =
+  'Pairing constraints cannot be satisfied: they leave no way to make both sides the same size'
+
+function sumRatings(players: Player[]): number {
+  return players.reduce((sum, player) => sum + player.rating, 0)
+}
+
+/**
+ * The ways a constraint block can be placed, respecting its lock if it has one
+ */
+function blockOrientations(
+  block: ConstraintBlock,
+): Array<{ onTeam1: Player[]; onTeam2: Player[] }> {
+  const asIs = { onTeam1: block.sideA, onTeam2: block.sideB }
+  const swapped = { onTeam1: block.sideB, onTeam2: block.sideA }
+  if (block.lockedSide === 1) return [asIs]
+  if (block.lockedSide === 2) return [swapped]
+  return [asIs, swapped]
+}
+
+/**
+ * Group players by primary position (GK, DEF, MID, FWD, then unassigned).
+ * Returns a single group when no player has a position, so position-free squads
+ * balance exactly as before.
+ */
+function groupByPosition(players: Player[]): Player[][] {
+  const groups = [...POSITIONS, null]
+    .map((position) => players.filter((player) => (player.position ?? null) === position))
+    .filter((group) => group.length > 0)
+
+  return groups.length > 0 ? groups : [players]
+}
+
+/**
+ * Attribute weights to balance on: the given ones, or weight 1 for every attribute
+ * any player has a score for. Empty when nobody has attribute scores.
+ */
+function resolveAttributeWeights(
+  players: Player[],
+  attributeWeights?: Record<string, number>,
+): Record<string, number> {
+  if (attributeWeights && Object.keys(attributeWeights).length > 0) return attributeWeights
+
+  const weights: Record<string, number> = {}
+  for (const player of players) {
+    for (const name of Object.keys(player.attributes ?? {})) weights[name] = 1
+  }
+  return weights
+}
+
+// A player without a score for an attribute counts at their overall rating
+function attributeValue(player: Player, name: string): number {
+  return player.attributes?.[name] ?? player.rating
+}
+
+function attributeGaps(
+  team1: Player[],
+  team2: Player[],
+  weights: Record<string, number>,
+): Record<string, number> {
+  const gaps: Record<string, number> = {}
+  for (const name of Object.keys(weights)) {
+    const total1 = team1.reduce((sum, player) => sum + attributeValue(player, name), 0)
+    const total2 = team2.reduce((sum, player) => sum + attributeValue(player, name), 0)
+    gaps[name] = Math.abs(total1 - total2)
+  }
+  return gaps
+}
+
+/**
+ * Weighted sum of the per-attribute gaps between two sides (lower is more even)
+ */
+export function attributeImbalance(
+  team1: Player[],
+  team2: Player[],
+  attributeWeights?: Record<string, number>,
+): number {
+  const weights = resolveAttributeWeights([...team1, ...team2], attributeWeights)
+  const gaps = attributeGaps(team1, team2, weights)
+  return Object.keys(weights).reduce((sum, name) => sum + weights[name]! * gaps[name]!, 0)
+}
+
+/**
+ * Even out rating attributes in place by swapping players between the sides.
+ *
+ * Only players in swappable (those without pairing constraints) are moved, only within
+ * the same position, and only when the swap doesn't widen the overall rating gap - so
+ * an optimal rating split stays optimal. Takes the best improving swap until none is left.
+ */
+function balanceAttributes(
+  team1: Player[],
+  team2: Player[],
+  swappable: Player[],
+  attributeWeights?: Record<string, number>,
+) {
+  const weights = resolveAttributeWeights([...team1, ...team2], attributeWeights)
+  if (Object.keys(weights).length === 0) return
+
+  const swappableIds = new Set(swappable.map((p) => p.id))
+  const maxRounds = team1.length * team2.length
+
+  for (let round = 0; round < maxRounds; round++) {
+    const signedGap = sumRatings(team1) - sumRatings(team2)
+    let bestImbalance = attributeImbalance(team1, team2, weights)
+    let bestSwap: [number, number] | null = null
+
+    for (let i = 0; i < team1.length; i++) {
+      const player1 = team1[i]!
+      if (!swappableIds.has(player1.id)) continue
+
+      for (let j = 0; j < team2.length; j++) {
+        const player2 = team2[j]!
+        if (!swappableIds.has(player2.id)) continue
+        if ((player1.position ?? null) !== (player2.position ?? null)) continue
+        if (Math.abs(signedGap - 2 * (player1.rating - player2.rating)) > Math.abs(signedGap)) {
+          continue
+        }
+
+        team1[i] = player2
+        team2[j] = player1
+        const imbalance = attributeImbalance(team1, team2, weights)
+        team1[i] = player1
+        team2[j] = player2
+
+        if (imbalance < bestImbalance) {
+          bestImbalance = imbalance
+          bestSwap = [i, j]
+        }
+      }
+    }
+
+    if (!bestSwap) return
+    const [i, j] = bestSwap
+    const moved = team1[i]!
+    team1[i] = team2[j]!
+    team2[j] = moved
+  }
+}
+
+/**
+ * Split up recent teammates in place by swapping players between the sides.
+ *
+ * Same rules as balanceAttributes (unconstrained players, same position), but a swap may
+ * widen the rating gap as long as it stays within freshness.tolerance of where it started.
+ * Takes the swap that removes the most repeat weight (the narrower gap on ties) until
+ * none helps.
+ */
+function freshenTeams(
+  team1: Player[],
+  team2: Player[],
+  swappable: Player[],
+  freshness?: FreshnessOptions,
+) {
+  if (!freshness) return
+  const weights = teammateWeights(freshness.history)
+  if (weights.size === 0) return
+
+  const swappableIds = new Set(swappable.map((p) => p.id))
+  const maxGap = Math.abs(sumRatings(team1) - sumRatings(team2)) + Math.max(0, freshness.tolerance)
+  const maxRounds = team1.length * team2.length
+
+  for (let round = 0; round < maxRounds; round++) {
+    const signedGap = sumRatings(team1) - sumRatings(team2)
+    let bestGain = 0
+    let bestGap = Infinity
+    let bestSwap: [number, number] | null = null
+
+    for (let i = 0; i < team1.length; i++) {
+      const player1 = team1[i]!
+      if (!swappableIds.has(player1.id)) continue
+
+      for (let j = 0; j < team2.length; j++) {
+        const player2 = team2[j]!
+        if (!swappableIds.has(player2.id)) continue
+        if ((player1.position ?? null) !== (player2.position ?? null)) continue
+
+        const gap = Math.abs(signedGap - 2 * (player1.rating - player2.rating))
+        if (gap > maxGap) continue
+
+        const gain =
+          repeatCost(player1, team1, weights) +
+          repeatCost(player2, team2, weights) -
+          repeatCost(player2, team1, weights, player1) -
+          repeatCost(player1, team2, weights, player2)
+        if (gain <= 1e-9) continue
+        if (gain > bestGain + 1e-9 || (Math.abs(gain - bestGain) <= 1e-9 && gap < bestGap)) {
+          bestGain = gain
+          bestGap = gap
+          bestSwap = [i, j]
+        }
+      }
+    }
+
+    if (!bestSwap) return
+    const [i, j] = bestSwap
+    const moved = team1[i]!
+    team1[i] = team2[j]!
+    team2[j] = moved
+  }
+}
+
+/**
+ * Pick the substitute for an odd headcount (a middle-rated player) and return the rest.
+ * Goalkeepers are skipped when possible so they stay on the pitch, and players with
+ * pairing constraints are never benched since the substitute joins whichever side is weaker.
+ */
+function splitOffSubstitute(
+  players: Player[],
+  constraints: PairingConstraint[] = [],
+): {
+  playersToBalance: Player[]
+  substitutePlayer: Player | null
+} {
+  if (players.length % 2 === 0) {
+    return { playersToBalance: [...players], substitutePlayer: null }
+  }
+
+  const constrainedIds = constrainedPlayerIds(players, constraints)
+  const unconstrained = players.filter((p) => !constrainedIds.has(p.id))
+  if (unconstrained.length === 0) {
+    throw new Error(
+      'Pairing constraints cannot be satisfied: an odd number of players needs at least one player without constraints to act as substitute',
+    )
+  }
+
+  // Sort by rating to find a good substitute candidate (middle range)
+  const outfieldPlayers = unconstrained.filter((p) => p.position !== 'GK')
+  const candidates = outfieldPlayers.length > 0 ? outfieldPlayers : unconstrained
+  const sortedByRating = [...candidates].sort((a, b) => b.rating - a.rating)
+  const middleIndex = Math.floor(sortedByRating.length / 2)
+  const substitutePlayer = sortedByRating[middleIndex] || null
+
+  return {
+    playersToBalance: players.filter((p) => p.id !== substitutePlayer?.id),
+    substitutePlayer,
+  }
+}
+
+/**
+ * Something the exact solver places as a whole: a single player (team 1 or not) or a
+ * constraint block (one of its allowed orientations). Each choice lists who it puts
+ * on team 1 and their combined rating.
+ */
+interface SplitUnit {
+  choices: Array<{ onTeam1: Player[]; rating: number }>
+}
+
+interface SplitGroup {
+  units: SplitUnit[]
+  playerCount: number
+  // Team 1 must take half the group's players (rounded either way)
+  evenSplit: boolean
+}
+
+interface UnitTable {
+  total: number
+  reachable: Uint8Array[]
+  picks: Int8Array[][]
+}
+
+/**
+ * Build a grouped-knapsack table over units: reachable[k][s] is set when one choice per
+ * unit puts k players worth s on team 1.
+ *
+ * picks[u][k][s] records which choice of unit u first reached (k, s) after that unit.
+ * States are never overwritten, so walking the units backwards rebuilds a valid split.
+ */
+function buildUnitTable(units: SplitUnit[], maxCount: number): UnitTable {
+  const total = units.reduce(
+    (sum, unit) => sum + Math.max(...unit.choices.map((choice) => choice.rating)),
+    0,
+  )
+  const makeRows = () => Array.from({ length: maxCount + 1 }, () => new Uint8Array(total + 1))
+
+  let reachable = makeRows()
+  reachable[0]![0] = 1
+  const picks: Int8Array[][] = []
+
+  for (const unit of units) {
+    const next = makeRows()
+    const pick = Array.from({ length: maxCount + 1 }, () => new Int8Array(total + 1).fill(-1))
+    for (let count = 0; count <= maxCount; count++) {
+      for (let sum = 0; sum <= total; sum++) {
+        if (!reachable[count]![sum]) continue
+        unit.choices.forEach((choice, choiceIndex) => {
+          const nextCount = count + choice.onTeam1.length
+          const nextSum = sum + choice.rating
+          if (nextCount > maxCount || next[nextCount]![nextSum]) return
+          next[nextCount]![nextSum] = 1
+          pick[nextCount]![nextSum] = choiceIndex
+        })
+      }
+    }
+    reachable = next
+    picks.push(pick)
+  }
+
+  return { total, reachable, picks }
+}
+
+/**
+ * Rebuild the team 1 players that reach (count, sum) in a unit table
+ */
+function rebuildUnits(table: UnitTable, units: SplitUnit[], count: number, sum: number) {
+  const chosen: Player[] = []
+  for (let u = units.length - 1; u >= 0; u--) {
+    const choice = units[u]!.choices[table.picks[u]![count]![sum]!]!
+    chosen.push(...choice.onTeam1)
+    count -= choice.onTeam1.length
+    sum -= choice.rating
+  }
+  return chosen
+}
+
+/**
+ * Exact-solver groups: one per position among the unconstrained players (split evenly
+ * when it is a real position), plus one for the constraint blocks
+ */
+function buildSplitGroups(free: Player[], blocks: ConstraintBlock[]): SplitGroup[] {
+  const singleUnit = (player: Player): SplitUnit => ({
+    choices: [
+      { onTeam1: [player], rating: player.rating },
+      { onTeam1: [], rating: 0 },
+    ],
+  })
+  const positionGroups: SplitGroup[] = groupByPosition(free).map((group) => ({
+    units: group.map(singleUnit),
+    playerCount: group.length,
+    evenSplit: group[0]?.position != null,
+  }))
+  const blockGroup: SplitGroup = {
+    units: blocks.map((block) => ({
+      choices: blockOrientations(block).map(({ onTeam1 }) => ({
+        onTeam1,
+        rating: sumRatings(onTeam1),
+      })),
+    })),
+    playerCount: blocks.reduce((sum, b) => sum + b.sideA.length + b.sideB.length, 0),
+    evenSplit: false,
+  }
+  return blocks.length > 0 ? [...positionGroups, blockGroup] : positionGroups
+}
+
+/**
+ * Find the teamSize set of team 1 players whose rating sum is closest to target,
+ * or null when the groups leave no way to reach teamSize.
+ *
+ * Each group gets its own unit table, then a second DP over groups combines one
+ * (count, sum) choice per group. choiceCount/choiceSum record the choice that first
+ * reached each combined state so the winning split can be walked back group by group.
+ */
+function findOptimalSplit(groups: SplitGroup[], teamSize: number, target: number): Player[] | null {
+  const groupTables = groups.map((group) =>
+    buildUnitTable(group.units, Math.min(teamSize, group.playerCount)),
+  )
+  const total = groupTables.reduce((sum, table) => sum + table.total, 0)
+  const makeRows = () => Array.from({ length: teamSize + 1 }, () => new Uint8Array(total + 1))
+  const makeChoiceRows = () =>
+    Array.from({ length: teamSize + 1 }, () => new Int32Array(total + 1).fill(-1))
+
+  let reachable = makeRows()
+  reachable[0]![0] = 1
+  const choiceCount: Int32Array[][] = []
+  const choiceSum: Int32Array[][] = []
+
+  groups.forEach((group, g) => {
+    const table = groupTables[g]!
+    const allowedCounts = group.evenSplit
+      ? [...new Set([Math.floor(group.playerCount / 2), Math.ceil(group.playerCount / 2)])]
+      : Array.from({ length: Math.min(teamSize, group.playerCount) + 1 }, (_, count) => count)
+
+    // Every (count, sum) this group can contribute
+    const options: Array<[number, number]> = []
+    for (const count of allowedCounts) {
+      for (let sum = 0; sum <= table.total; sum++) {
+        if (table.reachable[count]?.[sum]) options.push([count, sum])
+      }
+    }
+
+    const next = makeRows()
+    const counts = makeChoiceRows()
+    const sums = makeChoiceRows()
+    for (let k = 0; k <= teamSize; k++) {
+      for (let s = 0; s <= total; s++) {
+        if (!reachable[k]![s]) continue
+        for (const [count, sum] of options) {
+          if (k + count > teamSize || next[k + count]![s + sum]) continue
+          next[k + count]![s + sum] = 1
+          counts[k + count]![s + sum] = count
+          sums[k + count]![s + sum] = sum
+        }
+      }
+    }
+
+    reachable = next
+    choiceCount.push(counts)
+    choiceSum.push(sums)
+  })
+
+  // Pick the reachable sum closest to the target
+  let bestSum = -1
+  for (let sum = 0; sum <= total; sum++) {
+    if (!reachable[teamSize]![sum]) continue
+    if (bestSum === -1 || Math.abs(sum - target) < Math.abs(bestSum - target)) {
+      bestSum = sum
+    }
+  }
+  if (bestSum === -1) return null
+
+  const chosen: Player[] = []
+  let k = teamSize
+  let s = bestSum
+  for (let g = groups.length - 1; g >= 0; g--) {
+    const count = choiceCount[g]![k]![s]!
+    const sum = choiceSum[g]![k]![s]!
+    chosen.push(...rebuildUnits(groupTables[g]!, groups[g]!.units, count, sum))
+    k -= count
+    s -= sum
+  }
+
+  return chosen
+}
+
+/**
+ * Attach the substitute (if any) to the weaker side, or to teamWithSub when the caller
+ * has already decided (e.g. a captain picked them), and build the TeamPair
+ */
+export function finalizeTeamPair(
+  team1: Player[],
+  team2: Player[],
+  substitutePlayer: Player | null,
+  isOptimal: boolean,
+  teamWithSub?: 1 | 2,
+): TeamPair {
+  const team1Rating = team1.reduce((sum, player) => sum + player.rating, 0)
+  const team2Rating = team2.reduce((sum, player) => sum + player.rating, 0)
+
+  // Gaps are measured on the on-pitch sides, like ratingDifference
+  const weights = resolveAttributeWeights([...team1, ...team2])
+  const attributeDifferences =
+    Object.keys(weights).length > 0 ? attributeGaps(team1, team2, weights) : undefined
 
   // Handle substitute assignment
   let substituteInfo: TeamPair['substituteInfo'] = undefined
 
-  if (substitutePlayer && isOddNumber) {
-    // Determine which team gets the substitute (the one with lower total rating)
-    const teamWithSub: 1 | 2 = team1Rating <= team2Rating ? 1 : 2
-    const targetTeam = teamWithSub === 1 ? team1 : team2
+  if (substitutePlayer) {
+    // Unless decided already, the substitute joins the team with the lower total rating
+    const subTeam: 1 | 2 = teamWithSub ?? (team1Rating <= team2Rating ? 1 : 2)
+    const targetTeam = subTeam === 1 ? team1 : team2
 
     // Add substitute to the team
     targetTeam.push(substitutePlayer)
@@ -79,7 +796,7 @@ export function balanceTeams(players: Player[]): TeamPair {
 
     if (rotationPlayer) {
       substituteInfo = {
-        teamWithSub,
+        teamWithSub: subTeam,
         substitutePair: {
           substitute: substitutePlayer,
           rotationPlayer,
@@ -94,17 +811,28 @@ export function balanceTeams(players: Player[]): TeamPair {
     team1,
     team2,
     ratingDifference,
+    attributeDifferences,
+    isOptimal,
     substituteInfo,
   }
 }
 
 /**
- * Find the player with the closest rating to the target player
+ * Find the player with the closest rating to the target player.
+ * Players who can cover the target's position are preferred when there are any.
  */
 function findClosestRatingPlayer(targetPlayer: Player, players: Player[]): Player | null {
   if (players.length === 0) return null
 
-  return players.reduce((closest, current) => {
+  const samePosition = targetPlayer.position
+    ? players.filter(
+        (p) =>
+          p.position === targetPlayer.position || p.secondaryPosition === targetPlayer.position,
+      )
+    : []
+  const candidates = samePosition.length > 0 ? samePosition : players
+
+  return candidates.reduce((closest, current) => {
     const targetRating = targetPlayer.rating
     const currentDiff = Math.abs(current.rating - targetRating)
     const closestDiff = Math.abs(closest.rating - targetRating)
@@ -116,43 +844,77 @@ function findClosestRatingPlayer(targetPlayer: Player, players: Player[]): Playe
 /**
  * Apply random rating variation to players (±5 points) to add randomization
  */
-function randomizePlayerRatings(players: Player[], variation = 5): Player[] {
+function randomizePlayerRatings(players: Player[], random: RandomSource, variation = 5): Player[] {
   return players.map((player) => ({
     ...player,
-    rating: Math.max(1, Math.min(100, player.rating + getRandomVariation(variation))),
+    rating: Math.max(1, Math.min(100, player.rating + getRandomVariation(variation, random))),
   }))
 }
 
 /**
  * Get a random variation between -variation and +variation
  */
-function getRandomVariation(variation: number): number {
-  return Math.floor(Math.random() * (variation * 2 + 1)) - variation
+function getRandomVariation(variation: number, random: RandomSource): number {
+  return Math.floor(random() * (variation * 2 + 1)) - variation
 }
 
 /**
- * Generate multiple balanced team combinations and return the best one
+ * Generate multiple balanced team combinations and return the best one.
+ * Squads small enough for the exact solver skip the shuffle search entirely; the seed
+ * then breaks ties between equally good splits, so regenerating can still vary the teams.
  */
-export function findBestTeamBalance(players: Player[], iterations = 100): TeamPair {
+export function findBestTeamBalance(
+  players: Player[],
+  iterations = 100,
+  options: PairingOptions = {},
+): TeamPair {
   if (players.length < 2) {
     throw new Error('Need at least 2 players to create teams')
   }
 
-  let bestBalance = balanceTeams(players)
+  if (options.unevenSides && players.length % 2 === 1) {
+    return balanceUnevenTeams(players, options.unevenSides.handicap, options.constraints)
+  }
+
+  const seed = options.seed ?? generateSeed()
+  const random = createSeededRandom(seed)
+
+  if (canSolveExactly(players, options)) {
+    const exact = balanceTeamsExact(
+      players,
+      options.constraints,
+      options.attributeWeights,
+      options.freshness,
+      random,
+    )
+    return { ...exact, seed }
+  }
+
+  let bestBalance = balanceTeams(
+    players,
+    options.constraints,
+    options.attributeWeights,
+    options.freshness,
+  )
 
   // Try different shuffles and rating variations to find better balance
   for (let i = 0; i < iterations; i++) {
     // Apply random rating variations for this iteration
-    const randomizedPlayers = randomizePlayerRatings(players)
-    const shuffled = shuffleArray(randomizedPlayers)
-    const balance = balanceTeams(shuffled)
+    const randomizedPlayers = randomizePlayerRatings(players, random)
+    const shuffled = shuffleArray(randomizedPlayers, random)
+    const balance = balanceTeams(
+      shuffled,
+      options.constraints,
+      options.attributeWeights,
+      options.freshness,
+    )
 
     if (balance.ratingDifference < bestBalance.ratingDifference) {
       bestBalance = balance
     }
   }
 
-  return bestBalance
+  return { ...bestBalance, seed }
 }
 
 /**
@@ -162,64 +924,263 @@ export function findRandomizedTeamBalance(
   players: Player[],
   ratingVariation = 5,
   iterations = 150,
+  options: PairingOptions = {},
 ): TeamPair {
   if (players.length < 2) {
     throw new Error('Need at least 2 players to create teams')
   }
 
+  const seed = options.seed ?? generateSeed()
+  const random = createSeededRandom(seed)
+
   // Apply initial randomization to base ratings
-  const randomizedPlayers = randomizePlayerRatings(players, ratingVariation)
+  const randomizedPlayers = randomizePlayerRatings(players, random, ratingVariation)
 
-  let bestBalance = balanceTeams(randomizedPlayers)
+  // Uneven sides are solved exactly, so one jittered set of ratings is enough
+  if (options.unevenSides && players.length % 2 === 1) {
+    return {
+      ...balanceUnevenTeams(randomizedPlayers, options.unevenSides.handicap, options.constraints),
+      seed,
+    }
+  }
+
+  let bestBalance = balanceTeams(
+    randomizedPlayers,
+    options.constraints,
+    options.attributeWeights,
+    options.freshness,
+  )
 
   // Try multiple iterations with different randomizations
   for (let i = 0; i < iterations; i++) {
     // Apply fresh randomization for each iteration
-    const freshRandomizedPlayers = randomizePlayerRatings(players, ratingVariation)
-    const shuffled = shuffleArray(freshRandomizedPlayers)
-    const balance = balanceTeams(shuffled)
+    const freshRandomizedPlayers = randomizePlayerRatings(players, random, ratingVariation)
+    const shuffled = shuffleArray(freshRandomizedPlayers, random)
+    const balance = balanceTeams(
+      shuffled,
+      options.constraints,
+      options.attributeWeights,
+      options.freshness,
+    )
 
     if (balance.ratingDifference < bestBalance.ratingDifference) {
       bestBalance = balance
     }
   }
 
-  return bestBalance
+  return { ...bestBalance, seed }
 }
 
 /**
- * Create multiple team pairs from a pool of players
+ * Create multiple team pairs from a pool of players.
+ * Players linked by pairing constraints are always dealt into the same match.
  */
-export function createMultipleTeamPairs(players: Player[], pairCount: number): TeamPair[] {
+export function createMultipleTeamPairs(
+  players: Player[],
+  pairCount: number,
+  options: PairingOptions = {},
+): TeamPair[] {
   if (players.length < pairCount * 2) {
     throw new Error(`Need at least ${pairCount * 2} players to create ${pairCount} team pairs`)
   }
 
-  const shuffled = shuffleArray([...players])
-  const pairs: TeamPair[] = []
+  const seed = options.seed ?? generateSeed()
+  const random = createSeededRandom(seed)
+
+  // Deal whole constraint blocks so linked players can't be split across matches
+  const { blocks, free } = resolvePairingConstraints(players, options.constraints)
+  const units = shuffleArray(
+    [...blocks.map((block) => [...block.sideA, ...block.sideB]), ...free.map((player) => [player])],
+    random,
+  )
 
   const playersPerPair = Math.floor(players.length / pairCount)
+  const slices: Player[][] = Array.from({ length: pairCount }, () => [])
 
-  for (let i = 0; i < pairCount; i++) {
-    const startIndex = i * playersPerPair
-    const endIndex = i === pairCount - 1 ? players.length : (i + 1) * playersPerPair
-    const pairPlayers = shuffled.slice(startIndex, endIndex)
+  for (const unit of units) {
+    // First match (other than the last) with room takes the unit; the last takes the rest
+    const slice =
+      slices.slice(0, -1).find((candidate) => candidate.length + unit.length <= playersPerPair) ??
+      slices[pairCount - 1]!
+    slice.push(...unit)
+  }
 
+  // Each match searches from its own seed drawn from the shared one, so the whole set
+  // of matches is reproducible from the single seed reported on every pair
+  const pairs: TeamPair[] = []
+  for (const pairPlayers of slices) {
     if (pairPlayers.length >= 2) {
-      pairs.push(findBestTeamBalance(pairPlayers, 50))
+      const pairSeed = Math.floor(random() * (MAX_SEED + 1))
+      pairs.push({ ...findBestTeamBalance(pairPlayers, 50, { ...options, seed: pairSeed }), seed })
     }
   }
 
   return pairs
 }
 
+/**
+ * Split a pool into teamCount teams whose rating totals are as close as possible.
+ *
+ * Team sizes differ by at most one. Each position is dealt round the teams (to the team
+ * with the fewest of that position, then the lowest total), then same-position swaps
+ * between any two teams are applied while they narrow the spread between the strongest
+ * and weakest totals. The first deal goes strongest-first; the remaining iterations
+ * deal in shuffled order and the best split found wins. ratingVariation (±points)
+ * jitters the ratings used for the search to get a different but still fair split;
+ * reported totals always use real ratings. The shuffles and jitter are drawn from
+ * options.seed (or a fresh seed), which is returned so the split can be reproduced.
+ */
+export function balanceIntoTeams(
+  players: Player[],
+  teamCount: number,
+  options: { iterations?: number; ratingVariation?: number; seed?: number } = {},
+): TeamSplit {
+  if (!Number.isInteger(teamCount) || teamCount < 2) {
+    throw new Error('Need at least 2 teams to split players into')
+  }
+  if (players.length < teamCount) {
+    throw new Error(`Need at least ${teamCount} players to create ${teamCount} teams`)
+  }
+
+  const seed = options.seed ?? generateSeed()
+  const random = createSeededRandom(seed)
+  const searchPlayers = options.ratingVariation
+    ? randomizePlayerRatings(players, random, options.ratingVariation)
+    : players
+  const iterations = options.iterations ?? 30
+
+  let best = improveTeamSplit(
+    dealIntoTeams(searchPlayers, teamCount, options.ratingVariation ? random : null),
+  )
+  for (let i = 0; i < iterations; i++) {
+    const candidate = improveTeamSplit(dealIntoTeams(searchPlayers, teamCount, random))
+    if (isBetterSplit(splitScore(candidate.totals), splitScore(best.totals))) {
+      best = candidate
+    }
+  }
+
+  const realById = new Map(players.map((p) => [p.id, p]))
+  const teams = best.teams.map((team) => team.map((player) => realById.get(player.id)!))
+  const totals = teams.map(sumRatings)
+
+  return {
+    teams,
+    totals,
+    ratingSpread: Math.max(...totals) - Math.min(...totals),
+    seed,
+  }
+}
+
+/**
+ * Deal players round teamCount teams (sizes within one of each other), one position
+ * group at a time so every position is spread as evenly as the headcount allows.
+ * Each group is dealt in shuffled order when given a random source, strongest-first otherwise.
+ */
+function dealIntoTeams(players: Player[], teamCount: number, random: RandomSource | null) {
+  const baseSize = Math.floor(players.length / teamCount)
+  const largeTeams = players.length % teamCount
+  const teams: Player[][] = Array.from({ length: teamCount }, () => [])
+  const totals: number[] = Array.from({ length: teamCount }, () => 0)
+  const hasRoom = (t: number) =>
+    teams[t]!.length < baseSize ||
+    (teams[t]!.length === baseSize &&
+      teams.filter((team) => team.length > baseSize).length < largeTeams)
+
+  for (const group of groupByPosition(players)) {
+    const counts: number[] = Array.from({ length: teamCount }, () => 0)
+    const order = random
+      ? shuffleArray(group, random)
+      : [...group].sort((a, b) => b.rating - a.rating)
+    for (const player of order) {
+      let target = -1
+      for (let t = 0; t < teamCount; t++) {
+        if (!hasRoom(t)) continue
+        if (
+          target === -1 ||
+          counts[t]! < counts[target]! ||
+          (counts[t] === counts[target] && totals[t]! < totals[target]!)
+        ) {
+          target = t
+        }
+      }
+      teams[target]!.push(player)
+      totals[target]! += player.rating
+      counts[target]!++
+    }
+  }
+
+  return { teams, totals }
+}
+
+/**
+ * Spread between strongest and weakest totals, then sum of squared totals
+ * (lower means the totals are bunched closer together)
+ */
+function splitScore(totals: number[]): [number, number] {
+  return [
+    Math.max(...totals) - Math.min(...totals),
+    totals.reduce((sum, total) => sum + total * total, 0),
+  ]
+}
+
+function isBetterSplit(a: [number, number], b: [number, number]): boolean {
+  return a[0] < b[0] || (a[0] === b[0] && a[1] < b[1])
+}
+
+/**
+ * Apply the best same-position swap between two teams until no swap improves the score
+ */
+function improveTeamSplit(split: { teams: Player[][]; totals: number[] }) {
+  const { teams, totals } = split
+  const playerCount = teams.reduce((sum, team) => sum + team.length, 0)
+
+  for (let round = 0; round < playerCount * playerCount; round++) {
+    let best = splitScore(totals)
+    let bestSwap: [number, number, number, number] | null = null
+
+    for (let a = 0; a < teams.length; a++) {
+      for (let b = a + 1; b < teams.length; b++) {
+        for (let i = 0; i < teams[a]!.length; i++) {
+          for (let j = 0; j < teams[b]!.length; j++) {
+            const playerA = teams[a]![i]!
+            const playerB = teams[b]![j]!
+            if ((playerA.position ?? null) !== (playerB.position ?? null)) continue
+
+            const delta = playerB.rating - playerA.rating
+            if (delta === 0) continue
+            const next = [...totals]
+            next[a]! += delta
+            next[b]! -= delta
+            const candidate = splitScore(next)
+            if (isBetterSplit(candidate, best)) {
+              best = candidate
+              bestSwap = [a, i, b, j]
+            }
+          }
+        }
+      }
+    }
+
+    if (!bestSwap) break
+    const [a, i, b, j] = bestSwap
+    const playerA = teams[a]![i]!
+    const playerB = teams[b]![j]!
+    teams[a]![i] = playerB
+    teams[b]![j] = playerA
+    totals[a]! += playerB.rating - playerA.rating
+    totals[b]! += playerA.rating - playerB.rating
+  }
+
+  return split
+}
+
 /**
  * Shuffle array using Fisher-Yates algorithm
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: RandomSource): T[] {
   const shuffled = [...array]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     const temp = shuffled[i]!
     shuffled[i] = shuffled[j]!
     shuffled[j] = temp
@@ -227,6 +1188,17 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled
 }
 
+/**
+ * Count how many players of each primary position are in a team
+ */
+export function countPositions(players: Player[]): Record<Position, number> {
+  const counts: Record<Position, number> = { GK: 0, DEF: 0, MID: 0, FWD: 0 }
+  for (const player of players) {
+    if (player.position) counts[player.position]++
+  }
+  return counts
+}
+
 /**
  * Calculate team statistics
  */
@@ -0,0 +1,377 @@
+import { POINTS_FOR_DRAW, POINTS_FOR_WIN } from './leagueTable'
+
+export type TournamentFormat = 'ROUND_ROBIN' | 'KNOCKOUT'
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  ROUND_ROBIN: 'Round robin',
+  KNOCKOUT: 'Knockout',
+}
+
+export const MIN_TOURNAMENT_TEAMS = 2
+export const MAX_TOURNAMENT_TEAMS = 16
+
+/**
+ * A fixture in a planned tournament. Teams are seed indexes (0 = first seed); a knockout
+ * fixture's teams are null until the fixtures feeding it are decided.
+ */
+export interface PlannedFixture {
+  round: number
+  // Place in the round; knockout winners of 2i and 2i + 1 meet in the next round's i
+  bracketIndex: number
+  // Time slot (0 = the start) and pitch (1 = the first) the fixture is played in
+  slot: number
+  pitch: number
+  home: number | null
+  away: number | null
+}
+
+/**
+ * A played (or unplayed) fixture, as the standings need it. Team ids are whatever the
+ * caller uses: seed indexes here, stored ids on the server.
+ */
+export interface FixtureResult {
+  homeTeamId: number | null
+  awayTeamId: number | null
+  homeScore: number | null
+  awayScore: number | null
+  // Knockout draws only: who went through (on penalties, a coin toss...)
+  winnerTeamId?: number | null
+}
+
+export interface TournamentStanding {
+  teamId: number
+  // 1 for the top of the table
+  position: number
+  played: number
+  won: number
+  drawn: number
+  lost: number
+  goalsFor: number
+  goalsAgainst: number
+  goalDifference: number
+  points: number
+}
+
+/**
+ * How a tournament is played, as picked when it's set up
+ */
+export interface TournamentSettings {
+  name: string
+  format: TournamentFormat
+  pitches: number
+  slotMinutes: number
+  // ISO date-time the first slot starts
+  startsAt: string
+}
+
+export interface TournamentTeam {
+  id: number
+  name: string
+  seed: number
+  players: Array<{ id: number; name: string; rating: number }>
+}
+
+export interface TournamentFixture extends FixtureResult {
+  id: number
+  round: number
+  bracketIndex: number
+  slot: number
+  pitch: number
+  winnerTeamId: number | null
+}
+
+/**
+ * A saved tournament, as the tournament queries return it
+ */
+export interface Tournament {
+  id: number
+  name: string
+  format: TournamentFormat
+  pitches: number
+  slotMinutes: number
+  startsAt: string
+  // In seed order
+  teams: TournamentTeam[]
+  // In slot, then pitch order
+  fixtures: TournamentFixture[]
+  // Round robin only
+  standings: TournamentStanding[]
+  winner: { id: number; name: string } | null
+  createdAt: string
+}
+
+/**
+ * Round-robin pairings by the circle method: every team plays every other once. With an
+ * odd number of teams one team sits out each round.
+ */
+export function roundRobinRounds(teamCount: number): Array<Array<[number, number]>> {
+  const slots: Array<number | null> = Array.from({ length: teamCount }, (_, i) => i)
+  if (slots.length % 2) slots.push(null)
+
+  const rounds: Array<Array<[number, number]>> = []
+  for (let round = 0; round < slots.length - 1; round++) {
+    const games: Array<[number, number]> = []
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i]!
+      const b = slots[slots.length - 1 - i]!
+      if (a === null || b === null) continue
+      // Alternate home and away so the fixed team isn't always at home
+      games.push(round % 2 ? [b, a] : [a, b])
+    }
+    rounds.push(games)
+    // Keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop()!)
+  }
+  return rounds
+}
+
+/**
+ * Bracket positions for a power-of-two draw, so the top seeds only meet late on:
+ * [0, 3, 1, 2] for four, [0, 7, 3, 4, 1, 6, 2, 5] for eight
+ */
+function bracketOrder(size: number): number[] {
+  let order = [0]
+  while (order.length < size) {
+    const next = order.length * 2
+    order = order.flatMap((seed) => [seed, next - 1 - seed])
+  }
+  return order
+}
+
+/**
+ * Every knockout fixture, final included. When the number of teams isn't a power of two
+ * the top seeds get a bye: they have no first-round fixture and start in round 2.
+ */
+export function knockoutBracket(
+  teamCount: number,
+): Array<Pick<PlannedFixture, 'round' | 'bracketIndex' | 'home' | 'away'>> {
+  let size = 1
+  while (size < teamCount) size *= 2
+  const order = bracketOrder(size).map((seed) => (seed < teamCount ? seed : null))
+
+  const fixtures: Array<Pick<PlannedFixture, 'round' | 'bracketIndex' | 'home' | 'away'>> = []
+  // Teams already through to round 2 on a bye, by round 2 fixture
+  const byes = new Map<number, { home: number | null; away: number | null }>()
+
+  for (let i = 0; i < size / 2; i++) {
+    const home = order[2 * i]!
+    const away = order[2 * i + 1]
+    if (away === null || away === undefined) {
+      const next = byes.get(Math.floor(i / 2)) ?? { home: null, away: null }
+      next[i % 2 ? 'away' : 'home'] = home
+      byes.set(Math.floor(i / 2), next)
+    } else {
+      fixtures.push({ round: 1, bracketIndex: i, home, away })
+    }
+  }
+
+  let round = 2
+  for (let games = size / 4; games >= 1; games /= 2, round++) {
+    for (let i = 0; i < games; i++) {
+      const known = round === 2 ? byes.get(i) : undefined
+      fixtures.push({
+        round,
+        bracketIndex: i,
+        home: known?.home ?? null,
+        away: known?.away ?? null,
+      })
+    }
+  }
+  return fixtures
+}
+
+/**
+ * Where a knockout fixture's winner plays next, or null after the final
+ */
+export function nextKnockoutFixture(
+  round: number,
+  bracketIndex: number,
+  rounds: number,
+): { round: number; bracketIndex: number; side: 'home' | 'away' } | null {
+  if (round >= rounds) return null
+  return {
+    round: round + 1,
+    bracketIndex: Math.floor(bracketIndex / 2),
+    side: bracketIndex % 2 ? 'away' : 'home',
+  }
+}
+
+/**
+ * Fixtures for a tournament, spread over the pitches. Each fixture takes the earliest
+ * time slot with a free pitch where neither team is already playing; a knockout round
+ * only starts once the round before it has finished.
+ */
+export function planTournament(
+  format: TournamentFormat,
+  teamCount: number,
+  pitches: number,
+): PlannedFixture[] {
+  if (teamCount < MIN_TOURNAMENT_TEAMS || teamCount > MAX_TOURNAMENT_TEAMS) {
+    throw new Error(
+      `A tournament needs between ${MIN_TOURNAMENT_TEAMS} and ${MAX_TOURNAMENT_TEAMS} teams`,
+    )
+  }
+  if (!Number.isInteger(pitches) || pitches < 1) {
+    throw new Error('A tournament needs at least one pitch')
+  }
+
+  const games =
+    format === 'ROUND_ROBIN'
+      ? roundRobinRounds(teamCount).flatMap((round, r) =>
+          round.map(([home, away], i) => ({ round: r + 1, bracketIndex: i, home, away })),
+        )
+      : knockoutBracket(teamCount)
+
+  // Fixtures per slot, and which teams are busy in it
+  const slotUse: Array<{ fixtures: number; teams: Set<number> }> = []
+  let roundStart = 0
+  let lastRound = 1
+  let lastSlot = -1
+
+  return games.map((game) => {
+    if (format === 'KNOCKOUT' && game.round !== lastRound) {
+      roundStart = lastSlot + 1
+      lastRound = game.round
+    }
+    let slot = roundStart
+    for (; ; slot++) {
+      const use = slotUse[slot] ?? { fixtures: 0, teams: new Set<number>() }
+      slotUse[slot] = use
+      const busy = [game.home, game.away].some((team) => team !== null && use.teams.has(team))
+      if (use.fixtures < pitches && !busy) break
+    }
+
+    const use = slotUse[slot]!
+    use.fixtures++
+    for (const team of [game.home, game.away]) if (team !== null) use.teams.add(team)
+    lastSlot = Math.max(lastSlot, slot)
+    return { ...game, slot, pitch: use.fixtures }
+  })
+}
+
+/**
+ * Number of time slots a plan needs
+ */
+export function slotCount(fixtures: Array<Pick<PlannedFixture, 'slot'>>): number {
+  return fixtures.reduce((count, fixture) => Math.max(count, fixture.slot + 1), 0)
+}
+
+/**
+ * "Final", "Semi-finals", "Quarter-finals", otherwise "Round 2"
+ */
+export function knockoutRoundName(round: number, rounds: number): string {
+  if (round === rounds) return 'Final'
+  if (round === rounds - 1) return 'Semi-finals'
+  if (round === rounds - 2) return 'Quarter-finals'
+  return `Round ${round}`
+}
+
+/**
+ * When a time slot starts
+ */
+export function slotStart(startsAt: string | Date, slotMinutes: number, slot: number): Date {
+  return new Date(new Date(startsAt).getTime() + slot * slotMinutes * 60_000)
+}
+
+/**
+ * Who won a fixture: the higher score, or the recorded winner of a draw. Null until
+ * there's a result, and for a draw without a winner.
+ */
+export function fixtureWinner(fixture: FixtureResult): number | null {
+  const { homeScore, awayScore } = fixture
+  if (homeScore === null || awayScore === null) return null
+  if (homeScore > awayScore) return fixture.homeTeamId
+  if (awayScore > homeScore) return fixture.awayTeamId
+  return fixture.winnerTeamId ?? null
+}
+
+/**
+ * Round-robin table from the results so far. Teams are ordered by points, then goal
+ * difference, then goals scored, then points in the games between the teams still level,
+ * then seed (the order of teamIds).
+ */
+export function calculateTournamentStandings(
+  teamIds: number[],
+  fixtures: FixtureResult[],
+): TournamentStanding[] {
+  const rows = new Map<number, TournamentStanding>(
+    teamIds.map((teamId) => [
+      teamId,
+      {
+        teamId,
+        position: 0,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+      },
+    ]),
+  )
+
+  const played = fixtures.filter(
+    (f) =>
+      f.homeScore !== null &&
+      f.awayScore !== null &&
+      f.homeTeamId !== null &&
+      f.awayTeamId !== null &&
+      rows.has(f.homeTeamId) &&
+      rows.has(f.awayTeamId),
+  )
+
+  const points = (scored: number, conceded: number) =>
+    scored > conceded ? POINTS_FOR_WIN : scored === conceded ? POINTS_FOR_DRAW : 0
+
+  for (const fixture of played) {
+    const sides = [
+      [fixture.homeTeamId!, fixture.homeScore!, fixture.awayScore!],
+      [fixture.awayTeamId!, fixture.awayScore!, fixture.homeScore!],
+    ] as const
+    for (const [teamId, scored, conceded] of sides) {
+      const row = rows.get(teamId)!
+      row.played++
+      row.goalsFor += scored
+      row.goalsAgainst += conceded
+      row.points += points(scored, conceded)
+      if (scored > conceded) row.won++
+      else if (scored < conceded) row.lost++
+      else row.drawn++
+    }
+  }
+
+  const table = [...rows.values()]
+  for (const row of table) row.goalDifference = row.goalsFor - row.goalsAgainst
+
+  // Points each team took off the others level with it on points, goal difference and goals
+  const headToHead = new Map<number, number>()
+  const level = (a: TournamentStanding, b: TournamentStanding) =>
+    a.points === b.points && a.goalDifference === b.goalDifference && a.goalsFor === b.goalsFor
+  for (const row of table) {
+    const rivals = new Set(table.filter((other) => level(row, other)).map((o) => o.teamId))
+    let total = 0
+    for (const fixture of played) {
+      const { homeTeamId, awayTeamId, homeScore, awayScore } = fixture
+      if (!rivals.has(homeTeamId!) || !rivals.has(awayTeamId!)) continue
+      if (homeTeamId === row.teamId) total += points(homeScore!, awayScore!)
+      if (awayTeamId === row.teamId) total += points(awayScore!, homeScore!)
+    }
+    headToHead.set(row.teamId, total)
+  }
+
+  const seed = new Map(teamIds.map((teamId, index) => [teamId, index]))
+  table.sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.goalDifference - a.goalDifference ||
+      b.goalsFor - a.goalsFor ||
+      headToHead.get(b.teamId)! - headToHead.get(a.teamId)! ||
+      seed.get(a.teamId)! - seed.get(b.teamId)!,
+  )
+  table.forEach((row, index) => {
+    row.position = index + 1
+  })
+  return table
+}